@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for the mutano CLI
+ */
+
+import { runCli } from './cli.js'
+
+process.exitCode = await runCli(process.argv.slice(2))
@@ -0,0 +1,154 @@
+/**
+ * Command-line interface for Mutano
+ */
+
+import * as path from 'node:path'
+import { parseArgs } from 'node:util'
+import { generate } from './main.js'
+import type { Config } from './types/index.js'
+import { findConfigFile, loadConfigFile } from './utils/config-loader.js'
+import { watch } from './watch.js'
+
+export const cliUsage = `Usage: mutano [options]
+
+Options:
+  -c, --config <path>       Path to the config file (default: mutano.config.{ts,js,mjs,json})
+      --dry-run             Generate without writing files
+      --check               Fail when generated files on disk are out of date
+  -w, --watch               Regenerate when the schema file changes (prisma, sql, sqlite)
+      --silent              Do not print generated file paths
+      --only <destination>  Only run destinations of this type or plugin (repeatable)
+      --table <name>        Only generate this table or view (repeatable)
+  -h, --help                Show this help
+`
+
+export interface CliOptions {
+  config?: string
+  dryRun: boolean
+  check: boolean
+  watch: boolean
+  silent: boolean
+  only: string[]
+  tables: string[]
+  help: boolean
+}
+
+/**
+ * Parse command-line arguments into CLI options
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string', short: 'c' },
+      'dry-run': { type: 'boolean', default: false },
+      check: { type: 'boolean', default: false },
+      watch: { type: 'boolean', short: 'w', default: false },
+      silent: { type: 'boolean', default: false },
+      only: { type: 'string', multiple: true, default: [] },
+      table: { type: 'string', multiple: true, default: [] },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+    strict: true,
+    allowPositionals: false,
+  })
+
+  return {
+    config: values.config,
+    dryRun: values['dry-run'] === true,
+    check: values.check === true,
+    watch: values.watch === true,
+    silent: values.silent === true,
+    only: values.only ?? [],
+    tables: values.table ?? [],
+    help: values.help === true,
+  }
+}
+
+/**
+ * Apply CLI overrides on top of a loaded config
+ */
+export function applyCliOptions(config: Config, options: CliOptions): Config {
+  const result: Config = { ...config }
+
+  if (options.dryRun) result.dryRun = true
+  if (options.check) result.check = true
+  if (options.silent) result.silent = true
+
+  if (options.only.length > 0) {
+    result.destinations = config.destinations.filter(
+      (destination) =>
+        options.only.includes(destination.type) ||
+        (destination.type === 'custom' && options.only.includes(destination.plugin)),
+    )
+    if (result.destinations.length === 0) {
+      throw new Error(
+        `No destination matches --only ${options.only.join(', ')}`,
+      )
+    }
+  }
+
+  if (options.tables.length > 0) {
+    result.tables = options.tables
+    result.views = options.tables
+    result.partial = { tables: options.tables }
+  } else if (options.only.length > 0) {
+    result.partial = {}
+  }
+
+  return result
+}
+
+/**
+ * Run the CLI and resolve with the process exit code
+ */
+export async function runCli(argv: string[], cwd = process.cwd()): Promise<number> {
+  let options: CliOptions
+  try {
+    options = parseCliArgs(argv)
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${cliUsage}`)
+    return 1
+  }
+
+  if (options.help) {
+    console.log(cliUsage)
+    return 0
+  }
+
+  try {
+    const configPath = options.config
+      ? path.resolve(cwd, options.config)
+      : findConfigFile(cwd)
+    if (!configPath) {
+      throw new Error(
+        'No config file found. Create mutano.config.{ts,js,mjs,json} or pass --config <path>.',
+      )
+    }
+
+    const config = applyCliOptions(await loadConfigFile(configPath), options)
+
+    if (options.watch) {
+      const watcher = await watch(config)
+      await new Promise<void>((resolve) => {
+        process.once('SIGINT', () => {
+          watcher.close()
+          resolve()
+        })
+      })
+      return 0
+    }
+
+    const results = await generate(config)
+
+    if (config.dryRun && !config.silent) {
+      for (const filePath of Object.keys(results)) {
+        console.log(`Would create: ${filePath}`)
+      }
+    }
+    return 0
+  } catch (error) {
+    console.error(`mutano: ${(error as Error).message}`)
+    return 1
+  }
+}
@@ -8,6 +8,19 @@ export const defaultKyselyHeader =
 export const defaultZodHeader = (version: 3 | 4) => 
   "import { z } from 'zod" + (version === 3 ? '' : '/v4') + "';\n\n"
 
+export const defaultValibotHeader = "import * as v from 'valibot';\n\n"
+
+export const defaultArkTypeHeader = "import { type } from 'arktype';\n\n"
+
+export const defaultTypeBoxHeader =
+  "import { Type, type Static } from '@sinclair/typebox';\n\n"
+
+export const defaultEffectHeader = "import { Schema } from 'effect';\n\n"
+
+export const defaultYupHeader = "import * as yup from 'yup';\n\n"
+
+export const defaultJoiHeader = "import Joi from 'joi';\n\n"
+
 export const kyselyJsonTypes = `// JSON type definitions
 export type Json = ColumnType<JsonValue, string, string>;
 
@@ -3,7 +3,7 @@
  */
 
 import knex from 'knex'
-import type { Config, Desc } from '../types/index.js'
+import type { Config, Desc, EntityKeys } from '../types/index.js'
 import { hasTableIgnoreDirective, hasIgnoreDirective } from '../utils/magic-comments.js'
 
 /**
@@ -135,85 +135,147 @@ export async function extractViews(db: ReturnType<typeof knex>, config: Config):
 }
 
 /**
- * Extract column descriptions for a table or view
+ * Get the full type of a PostgreSQL column from information_schema, with the length of
+ * character types and the precision and scale of numeric types, e.g. `numeric(10,2)`
+ */
+function getPostgresColumnType(row: {
+  DataType: string
+  MaxLength: number | string | null
+  Precision: number | string | null
+  Scale: number | string | null
+}): string {
+  if (row.MaxLength !== null) return `${row.DataType}(${row.MaxLength})`
+  if (row.DataType === 'numeric' && row.Precision !== null) {
+    return `${row.DataType}(${row.Precision},${row.Scale ?? 0})`
+  }
+  return row.DataType
+}
+
+/**
+ * Extract column descriptions for every table and view of the database in a single query,
+ * keyed by entity name. Columns keep their ordinal position. PostgreSQL enum columns get
+ * their values from `enumDeclarations`, as read by extractPostgresEnums().
  */
 export async function extractColumnDescriptions(
   db: ReturnType<typeof knex>,
   config: Config,
-  tableName: string
-): Promise<Desc[]> {
+  entityNames: string[],
+  enumDeclarations: Record<string, string[]> = {}
+): Promise<Map<string, Desc[]>> {
   const { origin } = config
+  const wanted = new Set(entityNames)
+  const describes = new Map<string, Desc[]>()
+  const addColumn = (entityName: string, desc: Desc) => {
+    if (!wanted.has(entityName) || hasIgnoreDirective(desc.Comment)) return
+    const columns = describes.get(entityName) ?? []
+    columns.push(desc)
+    describes.set(entityName, columns)
+  }
 
   switch (origin.type) {
     case 'mysql':
       const mysqlColumns = await db.raw(`
         SELECT
+          table_name as \`Table\`,
           column_name as \`Field\`,
           column_default as \`Default\`,
           extra as \`Extra\`,
           is_nullable as \`Null\`,
           data_type as \`DataType\`,
           column_type as \`Type\`,
+          column_key as \`Key\`,
           column_comment as \`Comment\`
         FROM information_schema.columns
-        WHERE table_schema = ? AND table_name = ?
-        ORDER BY ordinal_position
-      `, [origin.database, tableName])
+        WHERE table_schema = ?
+        ORDER BY table_name, ordinal_position
+      `, [origin.database])
 
-      return mysqlColumns[0]
-        .filter((row: any) => !hasIgnoreDirective(row.Comment || ''))
-        .map((row: any) => ({
+      for (const row of mysqlColumns[0]) {
+        addColumn(row.Table, {
           Field: row.Field,
           Default: row.Default,
           Extra: row.Extra || '',
           Null: row.Null,
           DataType: row.DataType,
           Type: row.Type,
+          Key: row.Key || '',
           Comment: row.Comment || '',
-        }))
+        })
+      }
+      return describes
 
     case 'postgres':
       const schema = origin.schema || 'public'
       const postgresColumns = await db.raw(`
         SELECT
-          column_name as "Field",
-          column_default as "Default",
+          c.table_name as "Table",
+          c.column_name as "Field",
+          c.column_default as "Default",
           '' as "Extra",
-          is_nullable as "Null",
-          data_type as "Type",
-          '' as "Comment"
-        FROM information_schema.columns
-        WHERE table_schema = ? AND table_name = ?
-        ORDER BY ordinal_position
-      `, [schema, tableName])
-
-      return postgresColumns.rows
-        .filter((row: any) => !hasIgnoreDirective(row.Comment || ''))
-        .map((row: any) => ({
+          c.is_nullable as "Null",
+          c.data_type as "DataType",
+          c.character_maximum_length as "MaxLength",
+          c.numeric_precision as "Precision",
+          c.numeric_scale as "Scale",
+          c.udt_name as "UdtName",
+          col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position) as "Comment"
+        FROM information_schema.columns c
+        WHERE c.table_schema = ?
+        ORDER BY c.table_name, c.ordinal_position
+      `, [schema])
+      const postgresPrimaryKeys = await db.raw(`
+        SELECT kcu.table_name, kcu.column_name
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON kcu.constraint_schema = tc.constraint_schema
+          AND kcu.constraint_name = tc.constraint_name
+          AND kcu.table_name = tc.table_name
+        WHERE tc.table_schema = ? AND tc.constraint_type = 'PRIMARY KEY'
+      `, [schema])
+      const primaryKeys = new Set(
+        postgresPrimaryKeys.rows.map((row: any) => `${row.table_name}.${row.column_name}`)
+      )
+      for (const row of postgresColumns.rows) {
+        const isEnum = row.DataType === 'USER-DEFINED' && enumDeclarations[row.UdtName] !== undefined
+        addColumn(row.Table, {
           Field: row.Field,
           Default: row.Default,
           Extra: row.Extra || '',
           Null: row.Null,
-          Type: row.Type,
+          DataType: row.DataType,
+          Type: getPostgresColumnType(row),
+          Key: primaryKeys.has(`${row.Table}.${row.Field}`) ? 'PRI' : '',
           Comment: row.Comment || '',
-        }))
+          EnumOptions: isEnum ? enumDeclarations[row.UdtName] : undefined,
+          EnumName: isEnum ? row.UdtName : undefined,
+        })
+      }
+      return describes
 
     case 'sqlite':
-      const sqliteColumns = await db.raw(`PRAGMA table_info(${tableName})`)
+      const sqliteColumns = await db.raw(`
+        SELECT m.name AS table_name, p.*
+        FROM sqlite_master m
+        JOIN pragma_table_info(m.name) p
+        WHERE m.type IN ('table', 'view') AND m.name NOT LIKE 'sqlite_%'
+        ORDER BY m.name, p.cid
+      `)
 
-      return sqliteColumns
-        .filter((row: any) => !hasIgnoreDirective(row.Comment || ''))
-        .map((row: any) => ({
+      for (const row of sqliteColumns) {
+        addColumn(row.table_name, {
           Field: row.name,
           Default: row.dflt_value,
           Extra: row.pk ? 'PRIMARY KEY' : '',
           Null: row.notnull ? 'NO' : 'YES',
           Type: row.type,
+          Key: row.pk ? 'PRI' : '',
           Comment: '',
-        }))
+        })
+      }
+      return describes
 
     default:
-      return []
+      return describes
   }
 }
 
@@ -246,3 +308,254 @@ export async function extractEnumValues(
     return []
   }
 }
+
+/**
+ * Extract every PostgreSQL enum type of the schema with its labels, in declaration order
+ */
+export async function extractPostgresEnums(
+  db: ReturnType<typeof knex>,
+  config: Config
+): Promise<Record<string, string[]>> {
+  if (config.origin.type !== 'postgres') {
+    return {}
+  }
+
+  const result = await db.raw(`
+    SELECT t.typname, e.enumlabel
+    FROM pg_type t
+    JOIN pg_enum e ON e.enumtypid = t.oid
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE n.nspname = ?
+    ORDER BY t.typname, e.enumsortorder
+  `, [config.origin.schema || 'public'])
+
+  const enumDeclarations: Record<string, string[]> = {}
+  for (const row of result.rows) {
+    enumDeclarations[row.typname] = [...(enumDeclarations[row.typname] ?? []), row.enumlabel]
+  }
+  return enumDeclarations
+}
+
+/**
+ * Extract table and view comments keyed by entity name
+ */
+export async function extractEntityComments(
+  db: ReturnType<typeof knex>,
+  config: Config
+): Promise<Map<string, string>> {
+  const { origin } = config
+  const comments = new Map<string, string>()
+
+  switch (origin.type) {
+    case 'mysql':
+      const mysqlComments = await db.raw(`
+        SELECT table_name as \`Table\`, table_comment as \`Comment\`
+        FROM information_schema.tables
+        WHERE table_schema = ?
+      `, [origin.database])
+      for (const row of mysqlComments[0]) {
+        // MySQL reports 'VIEW' as the comment of every view
+        if (row.Comment && row.Comment !== 'VIEW') comments.set(row.Table, row.Comment)
+      }
+      return comments
+
+    case 'postgres':
+      const postgresComments = await db.raw(`
+        SELECT c.relname as "Table", obj_description(c.oid, 'pg_class') as "Comment"
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ? AND c.relkind IN ('r', 'v', 'm', 'p')
+      `, [origin.schema || 'public'])
+      for (const row of postgresComments.rows) {
+        if (row.Comment) comments.set(row.Table, row.Comment)
+      }
+      return comments
+
+    default:
+      return comments
+  }
+}
+
+/**
+ * One column of a unique constraint or foreign key, as returned by the key queries
+ */
+interface KeyColumnRow {
+  Table: string
+  /** Constraint or index name; SQLite numbers foreign keys instead */
+  Constraint: string | number
+  Type: 'unique' | 'foreign' | 'index'
+  Column: string
+  ReferencedTable: string | null
+  ReferencedColumn: string | null
+}
+
+/**
+ * Extract the unique constraints, foreign keys and plain indexes of every table, keyed by
+ * table name. Constraint columns keep their declaration order; indexes on expressions are left out.
+ */
+export async function extractEntityKeys(
+  db: ReturnType<typeof knex>,
+  config: Config
+): Promise<Map<string, EntityKeys>> {
+  const { origin } = config
+
+  switch (origin.type) {
+    case 'mysql':
+      const mysqlKeys = await db.raw(`
+        SELECT
+          kcu.table_name as \`Table\`,
+          kcu.constraint_name as \`Constraint\`,
+          IF(tc.constraint_type = 'UNIQUE', 'unique', 'foreign') as \`Type\`,
+          kcu.column_name as \`Column\`,
+          kcu.referenced_table_name as \`ReferencedTable\`,
+          kcu.referenced_column_name as \`ReferencedColumn\`
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON kcu.constraint_schema = tc.constraint_schema
+          AND kcu.constraint_name = tc.constraint_name
+          AND kcu.table_name = tc.table_name
+        WHERE tc.table_schema = ? AND tc.constraint_type IN ('UNIQUE', 'FOREIGN KEY')
+        ORDER BY kcu.table_name, kcu.constraint_name, kcu.ordinal_position
+      `, [origin.database])
+      const mysqlIndexes = await db.raw(`
+        SELECT
+          s.table_name as \`Table\`,
+          s.index_name as \`Constraint\`,
+          'index' as \`Type\`,
+          s.column_name as \`Column\`,
+          NULL as \`ReferencedTable\`,
+          NULL as \`ReferencedColumn\`
+        FROM information_schema.statistics s
+        WHERE s.table_schema = ? AND s.non_unique = 1 AND s.index_type IN ('BTREE', 'HASH')
+          AND NOT EXISTS (
+            SELECT 1 FROM information_schema.statistics e
+            WHERE e.table_schema = s.table_schema AND e.table_name = s.table_name
+              AND e.index_name = s.index_name AND e.column_name IS NULL
+          )
+        ORDER BY s.table_name, s.index_name, s.seq_in_index
+      `, [origin.database])
+      return groupKeyColumns([...mysqlKeys[0], ...mysqlIndexes[0]])
+
+    case 'postgres':
+      const postgresKeys = await db.raw(`
+        SELECT
+          cl.relname as "Table",
+          con.conname as "Constraint",
+          CASE con.contype WHEN 'u' THEN 'unique' ELSE 'foreign' END as "Type",
+          a.attname as "Column",
+          fcl.relname as "ReferencedTable",
+          fa.attname as "ReferencedColumn"
+        FROM pg_constraint con
+        JOIN pg_class cl ON cl.oid = con.conrelid
+        JOIN pg_namespace n ON n.oid = cl.relnamespace
+        CROSS JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS k(attnum, position)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+        LEFT JOIN pg_class fcl ON fcl.oid = con.confrelid
+        LEFT JOIN pg_attribute fa ON fa.attrelid = con.confrelid AND fa.attnum = con.confkey[k.position]
+        WHERE n.nspname = ? AND con.contype IN ('u', 'f')
+        ORDER BY cl.relname, con.conname, k.position
+      `, [origin.schema || 'public'])
+      const postgresIndexes = await db.raw(`
+        SELECT
+          cl.relname as "Table",
+          ic.relname as "Constraint",
+          'index' as "Type",
+          a.attname as "Column",
+          NULL as "ReferencedTable",
+          NULL as "ReferencedColumn"
+        FROM pg_index ix
+        JOIN pg_class cl ON cl.oid = ix.indrelid
+        JOIN pg_class ic ON ic.oid = ix.indexrelid
+        JOIN pg_namespace n ON n.oid = cl.relnamespace
+        CROSS JOIN LATERAL unnest(ix.indkey) WITH ORDINALITY AS k(attnum, position)
+        JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+        WHERE n.nspname = ? AND NOT ix.indisunique AND ix.indpred IS NULL AND NOT 0 = ANY(ix.indkey)
+        ORDER BY cl.relname, ic.relname, k.position
+      `, [origin.schema || 'public'])
+      return groupKeyColumns([...postgresKeys.rows, ...postgresIndexes.rows])
+
+    case 'sqlite':
+      // Unique indexes count as unique constraints, like in MySQL
+      const sqliteUniqueKeys = await db.raw(`
+        SELECT m.name as "Table", il.name as "Constraint", 'unique' as "Type", ii.name as "Column",
+          NULL as "ReferencedTable", NULL as "ReferencedColumn"
+        FROM sqlite_master m
+        JOIN pragma_index_list(m.name) il
+        JOIN pragma_index_info(il.name) ii
+        WHERE m.type = 'table' AND il."unique" = 1 AND il.origin IN ('u', 'c')
+        ORDER BY m.name, il.name, ii.seqno
+      `)
+      const sqliteIndexes = await db.raw(`
+        SELECT m.name as "Table", il.name as "Constraint", 'index' as "Type", ii.name as "Column",
+          NULL as "ReferencedTable", NULL as "ReferencedColumn"
+        FROM sqlite_master m
+        JOIN pragma_index_list(m.name) il
+        JOIN pragma_index_info(il.name) ii
+        WHERE m.type = 'table' AND il."unique" = 0 AND il.partial = 0
+          AND NOT EXISTS (SELECT 1 FROM pragma_index_info(il.name) e WHERE e.name IS NULL)
+        ORDER BY m.name, il.name, ii.seqno
+      `)
+      const sqliteForeignKeys = await db.raw(`
+        SELECT m.name as "Table", fk.id as "Constraint", 'foreign' as "Type", fk."from" as "Column",
+          fk."table" as "ReferencedTable", fk."to" as "ReferencedColumn"
+        FROM sqlite_master m
+        JOIN pragma_foreign_key_list(m.name) fk
+        WHERE m.type = 'table'
+        ORDER BY m.name, fk.id, fk.seq
+      `)
+
+      // REFERENCES without a column list targets the primary key of the referenced table
+      const referencedPrimaryKeys = new Map<string, string[]>()
+      for (const row of sqliteForeignKeys) {
+        if (row.ReferencedColumn !== null) continue
+        if (!referencedPrimaryKeys.has(row.ReferencedTable)) {
+          const primaryKey = await db.raw(
+            'SELECT name FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk',
+            [row.ReferencedTable]
+          )
+          referencedPrimaryKeys.set(row.ReferencedTable, primaryKey.map((column: any) => column.name))
+        }
+        const foreignKeyColumns = sqliteForeignKeys.filter(
+          (other: any) => other.Table === row.Table && other.Constraint === row.Constraint
+        )
+        const primaryKey = referencedPrimaryKeys.get(row.ReferencedTable) ?? []
+        row.ReferencedColumn = primaryKey[foreignKeyColumns.indexOf(row)] ?? null
+      }
+      return groupKeyColumns([...sqliteUniqueKeys, ...sqliteIndexes, ...sqliteForeignKeys])
+
+    default:
+      return new Map()
+  }
+}
+
+/**
+ * Group key column rows into the unique constraints, foreign keys and indexes of each table
+ */
+function groupKeyColumns(rows: KeyColumnRow[]): Map<string, EntityKeys> {
+  const constraints = new Map<string, KeyColumnRow[]>()
+  for (const row of rows) {
+    const id = `${row.Table}.${row.Type}.${row.Constraint}`
+    constraints.set(id, [...(constraints.get(id) ?? []), row])
+  }
+
+  const keys = new Map<string, EntityKeys>()
+  for (const columns of constraints.values()) {
+    const { Table: table, Type: type, ReferencedTable: referencedTable, Constraint } = columns[0]
+    const entityKeys = keys.get(table) ?? { uniqueKeys: [], foreignKeys: [], indexes: [] }
+    const name = typeof Constraint === 'string' ? { name: Constraint } : {}
+    if (type === 'unique') {
+      entityKeys.uniqueKeys.push(columns.map((row) => row.Column))
+    } else if (type === 'index') {
+      entityKeys.indexes.push({ ...name, columns: columns.map((row) => row.Column) })
+    } else if (referencedTable) {
+      entityKeys.foreignKeys.push({
+        ...name,
+        columns: columns.map((row) => row.Column),
+        referencedTable,
+        referencedColumns: columns.map((row) => row.ReferencedColumn ?? ''),
+      })
+    }
+    keys.set(table, entityKeys)
+  }
+  return keys
+}
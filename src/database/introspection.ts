@@ -0,0 +1,387 @@
+/**
+ * Introspection phase: read every entity and its columns once per run
+ */
+
+import type {
+  ColumnModel,
+  ColumnOrder,
+  Config,
+  Desc,
+  Destination,
+  Dialect,
+  EntityKeys,
+  EntityModel,
+  RelationModel,
+  SchemaModel,
+} from '../types/index.js'
+import { enumRegex } from '../types/mappings.js'
+import { applyInflection } from '../utils/inflection.js'
+import { type EntityInfo, createEntityList, filterTables, filterViews } from '../utils/filters.js'
+import {
+  createDatabaseConnection,
+  extractColumnDescriptions,
+  extractEntityComments,
+  extractEntityKeys,
+  extractPostgresEnums,
+  extractTables,
+  extractViews,
+} from './connection.js'
+import {
+  extractPrismaColumnDescriptions,
+  extractPrismaDbNames,
+  extractPrismaDialect,
+  extractPrismaEntities,
+  extractPrismaEntityKeys,
+  parsePrismaSchema,
+} from './prisma.js'
+import { extractSqlColumnDescriptions, extractSqlEntities } from './sql.js'
+
+export interface IntrospectionResult {
+  /** Filtered tables and views, sorted by name, that have at least one column */
+  entities: EntityInfo[]
+  /** Column descriptions keyed by entity name */
+  describes: Map<string, Desc[]>
+  /** Table and view comments keyed by entity name */
+  comments: Map<string, string>
+  enumDeclarations: Record<string, string[]>
+  /** Unique constraints and foreign keys keyed by table name */
+  keys: Map<string, EntityKeys>
+  /** Database names of Prisma models mapped with `@@map`, keyed by model name */
+  dbNames: Map<string, string>
+  dialect?: Dialect
+}
+
+/**
+ * Build the in-memory schema for a config: the origin is read (or queried) once,
+ * and the result feeds every destination.
+ */
+export async function introspectEntities(config: Config): Promise<IntrospectionResult> {
+  let tables: string[] = []
+  let views: string[] = []
+  let enumDeclarations: Record<string, string[]> = {}
+  let comments = new Map<string, string>()
+  let keys = new Map<string, EntityKeys>()
+  let dbNames = new Map<string, string>()
+  let dialect: Dialect | undefined
+  let loadDescribes: (entityNames: string[]) => Promise<Map<string, Desc[]>>
+  let db: ReturnType<typeof createDatabaseConnection> | null = null
+
+  try {
+    if (config.origin.type === 'prisma') {
+      const prismaSchema = parsePrismaSchema(config)
+      const prismaEntities = extractPrismaEntities(config, prismaSchema)
+      tables = prismaEntities.tables
+      views = prismaEntities.views
+      enumDeclarations = prismaEntities.enumDeclarations
+      config.enumDeclarations = enumDeclarations
+      dialect = extractPrismaDialect(prismaSchema)
+      keys = extractPrismaEntityKeys(prismaSchema)
+      dbNames = extractPrismaDbNames(prismaSchema)
+      loadDescribes = (entityNames) =>
+        Promise.resolve(
+          new Map(
+            entityNames.map((name) => [
+              name,
+              extractPrismaColumnDescriptions(config, name, enumDeclarations, prismaSchema),
+            ]),
+          ),
+        )
+    } else if (config.origin.type === 'sql') {
+      const sqlEntities = extractSqlEntities(config)
+      tables = sqlEntities.tables
+      views = sqlEntities.views
+      enumDeclarations = sqlEntities.enumDeclarations
+      dialect = config.origin.dialect || 'mysql'
+      for (const [name, definition] of sqlEntities.tableDefinitions) {
+        if (definition.comment) comments.set(name, definition.comment)
+        const { uniqueKeys, foreignKeys, indexes } = definition
+        if (uniqueKeys.length > 0 || foreignKeys.length > 0 || indexes.length > 0) {
+          keys.set(name, { uniqueKeys, foreignKeys, indexes })
+        }
+      }
+      loadDescribes = (entityNames) =>
+        Promise.resolve(
+          new Map(
+            entityNames.map((name) => [
+              name,
+              extractSqlColumnDescriptions(config, name, sqlEntities.tableDefinitions),
+            ]),
+          ),
+        )
+    } else {
+      const connection = createDatabaseConnection(config)
+      db = connection
+      dialect = config.origin.type
+      tables = await extractTables(connection, config)
+      views = await extractViews(connection, config)
+      comments = await extractEntityComments(connection, config)
+      enumDeclarations = await extractPostgresEnums(connection, config)
+      keys = await extractEntityKeys(connection, config)
+      loadDescribes = (entityNames) =>
+        extractColumnDescriptions(connection, config, entityNames, enumDeclarations)
+    }
+
+    tables = filterTables(tables, config.tables, config.ignore)
+    if (!config.includeViews) {
+      views = []
+    } else {
+      views = filterViews(views, config.views, config.ignoreViews)
+    }
+
+    const candidates = createEntityList(tables, views)
+    const describes = await loadDescribes(candidates.map((entity) => entity.name))
+    const entities = candidates.filter(
+      (entity) => (describes.get(entity.name)?.length ?? 0) > 0,
+    )
+    const entityKeys = new Map<string, EntityKeys>()
+    for (const { name } of entities) {
+      entityKeys.set(name, applyEntityKeys(describes.get(name) ?? [], keys.get(name)))
+    }
+
+    return { entities, describes, comments, enumDeclarations, keys: entityKeys, dbNames, dialect }
+  } finally {
+    if (db) {
+      await db.destroy()
+    }
+  }
+}
+
+/**
+ * Keep the keys whose columns were all introspected, and mark single-column unique
+ * constraints (`Key: 'UNI'`) and foreign keys (`References`) on the column descriptions
+ */
+function applyEntityKeys(describes: Desc[], keys?: EntityKeys): EntityKeys {
+  const fields = new Set(describes.map((desc) => desc.Field))
+  const hasFields = (columns: string[]) =>
+    columns.length > 0 && columns.every((column) => fields.has(column))
+  const uniqueKeys = (keys?.uniqueKeys ?? []).filter(hasFields)
+  const foreignKeys = (keys?.foreignKeys ?? []).filter(
+    (foreignKey) =>
+      hasFields(foreignKey.columns) &&
+      foreignKey.referencedColumns.length === foreignKey.columns.length,
+  )
+  const indexes = (keys?.indexes ?? []).filter((index) => hasFields(index.columns))
+
+  for (const desc of describes) {
+    // MySQL reports UNI and MUL for the first column of any index, so keys are set from constraints
+    if (desc.Key !== 'PRI') {
+      const isUnique = uniqueKeys.some((columns) => columns.length === 1 && columns[0] === desc.Field)
+      desc.Key = isUnique ? 'UNI' : ''
+    }
+    const foreignKey = foreignKeys.find(
+      ({ columns }) => columns.length === 1 && columns[0] === desc.Field,
+    )
+    if (foreignKey) {
+      desc.References = { table: foreignKey.referencedTable, column: foreignKey.referencedColumns[0] }
+    }
+  }
+
+  return { uniqueKeys, foreignKeys, indexes }
+}
+
+/**
+ * Convert a raw column description into a column of the schema model
+ */
+export function descToColumn(desc: Desc): ColumnModel {
+  const extra = desc.Extra.toLowerCase()
+  const dataType = desc.DataType || desc.Type
+
+  let enumValues = desc.EnumOptions
+  if (!enumValues && dataType.toLowerCase() === 'enum') {
+    const match = desc.Type.match(enumRegex)
+    if (match) {
+      enumValues = match[1].split(',').map((v) => v.trim().replace(/'/g, ''))
+    }
+  }
+
+  const column: ColumnModel = {
+    name: desc.Field,
+    type: desc.Type,
+    dataType,
+    nullable: desc.Null === 'YES',
+    default: desc.Default,
+    autoIncrement: extra.includes('auto_increment'),
+    defaultGenerated: extra.includes('default_generated'),
+    onUpdate: extra.includes('on update'),
+    primaryKey: desc.Key === 'PRI' || extra.includes('primary key'),
+    unique: desc.Key === 'UNI',
+    comment: desc.Comment,
+  }
+  if (desc.NativeType) column.nativeType = desc.NativeType
+  if (desc.DbName) column.dbName = desc.DbName
+  if (desc.References) column.references = desc.References
+  if (enumValues) column.enumValues = enumValues
+  if (desc.EnumName) column.enumName = desc.EnumName
+  return column
+}
+
+/**
+ * Convert a column of the schema model back into the column description used by getType()
+ */
+export function columnToDesc(column: ColumnModel): Desc {
+  const extras: string[] = []
+  if (column.autoIncrement) extras.push('auto_increment')
+  if (column.defaultGenerated) extras.push('DEFAULT_GENERATED')
+  if (column.onUpdate) extras.push('on update CURRENT_TIMESTAMP')
+
+  const desc: Desc = {
+    Field: column.name,
+    Default: column.default,
+    Extra: extras.join(' '),
+    Null: column.nullable ? 'YES' : 'NO',
+    Type: column.type,
+    DataType: column.dataType,
+    Comment: column.comment,
+    Key: column.primaryKey ? 'PRI' : column.unique ? 'UNI' : '',
+  }
+  if (column.nativeType) desc.NativeType = column.nativeType
+  if (column.dbName) desc.DbName = column.dbName
+  if (column.references) desc.References = column.references
+  if (column.enumValues) desc.EnumOptions = column.enumValues
+  if (column.enumName) desc.EnumName = column.enumName
+  return desc
+}
+
+/** Destinations that write schemas, which keep the origin column order by default */
+const schemaDestinationTypes = new Set<Destination['type']>(['sql', 'prisma', 'drizzle'])
+
+/**
+ * Get the column order of a destination, falling back to the config and then to alphabetical
+ * order, or to the origin order for schema destinations
+ */
+export function getColumnOrder(config: Config, destination?: Destination): ColumnOrder {
+  const destinationOrder = destination && 'columnOrder' in destination ? destination.columnOrder : undefined
+  const defaultOrder = destination && schemaDestinationTypes.has(destination.type) ? 'ordinal' : 'alphabetical'
+  return destinationOrder || config.columnOrder || defaultOrder
+}
+
+/**
+ * Get the column descriptions of an entity, sorted by name unless the origin order is kept,
+ * with the branded ID type of each branded column
+ */
+export function getEntityDescribes(
+  entity: EntityModel,
+  columnOrder: ColumnOrder,
+  idBrands?: Map<string, string>,
+): Desc[] {
+  const describes = entity.columns.map(columnToDesc)
+  for (const desc of describes) {
+    const idBrand = idBrands?.get(desc.Field)
+    if (idBrand) desc.IdBrand = idBrand
+  }
+  return columnOrder === 'ordinal'
+    ? describes
+    : describes.sort((a, b) => a.Field.localeCompare(b.Field))
+}
+
+/**
+ * Get the relations of a table through the foreign keys of the given tables, in both directions.
+ * Relations are named after the Prisma relation fields, or else after the foreign key column
+ * (`author_id` gives `author`) and the referencing table (`posts`).
+ */
+function getRelations(table: EntityModel, tables: EntityModel[]): RelationModel[] {
+  const relations: RelationModel[] = []
+  const usedNames = new Set(table.columns.map((column) => column.name))
+  const addRelation = (relation: RelationModel) => {
+    // Several foreign keys between the same tables are told apart by their columns
+    if (usedNames.has(relation.name)) {
+      relation.name = `${relation.name}_by_${relation.foreignKey.columns.join('_')}`
+    }
+    if (usedNames.has(relation.name)) return
+    usedNames.add(relation.name)
+    relations.push(relation)
+  }
+  const isTable = (name: string) => tables.some((t) => t.name === name)
+
+  for (const foreignKey of table.foreignKeys) {
+    if (!isTable(foreignKey.referencedTable)) continue
+    const [column] = foreignKey.columns
+    const columnName = foreignKey.columns.length === 1 ? column.replace(/(_id|Id|ID)$/, '') : ''
+    addRelation({
+      name:
+        foreignKey.relationField ??
+        (columnName && columnName !== column
+          ? columnName
+          : applyInflection(foreignKey.referencedTable, 'singular')),
+      table: foreignKey.referencedTable,
+      cardinality: 'one',
+      nullable: table.columns.some((c) => foreignKey.columns.includes(c.name) && c.nullable),
+      foreignKey,
+    })
+  }
+
+  for (const referencing of tables) {
+    for (const foreignKey of referencing.foreignKeys) {
+      if (foreignKey.referencedTable !== table.name) continue
+      // One row at most references this table when the foreign key is a primary or unique key
+      const isUnique = [referencing.primaryKey, ...referencing.uniqueKeys].some(
+        (columns) =>
+          columns.length === foreignKey.columns.length &&
+          columns.every((column) => foreignKey.columns.includes(column)),
+      )
+      addRelation({
+        name:
+          foreignKey.inverseRelationField ??
+          applyInflection(referencing.name, isUnique ? 'singular' : 'plural'),
+        table: referencing.name,
+        cardinality: isUnique ? 'one' : 'many',
+        nullable: isUnique,
+        foreignKey,
+      })
+    }
+  }
+
+  return relations
+}
+
+/**
+ * Build the serializable schema model from an introspection result
+ */
+export function toSchemaModel(config: Config, result: IntrospectionResult): SchemaModel {
+  const model: SchemaModel = {
+    origin: config.origin.type,
+    tables: [],
+    views: [],
+    enums: Object.entries(result.enumDeclarations).map(([name, values]) => ({
+      name,
+      values,
+    })),
+  }
+  if (result.dialect) model.dialect = result.dialect
+
+  for (const { name, type } of result.entities) {
+    const columns = (result.describes.get(name) ?? []).map(descToColumn)
+    const entity: EntityModel = {
+      name,
+      kind: type,
+      comment: result.comments.get(name) ?? '',
+      columns,
+      primaryKey: columns.filter((column) => column.primaryKey).map((column) => column.name),
+      uniqueKeys: result.keys.get(name)?.uniqueKeys ?? [],
+      foreignKeys: result.keys.get(name)?.foreignKeys ?? [],
+      indexes: result.keys.get(name)?.indexes ?? [],
+      relations: [],
+    }
+    const dbName = result.dbNames.get(name)
+    if (dbName) entity.dbName = dbName
+    if (type === 'view') {
+      model.views.push(entity)
+    } else {
+      model.tables.push(entity)
+    }
+  }
+  for (const table of model.tables) {
+    table.relations = getRelations(table, model.tables)
+  }
+
+  return model
+}
+
+/**
+ * Introspect the origin of a config and return a typed, serializable schema model
+ * with tables, views, columns, enums, primary keys, unique constraints, foreign keys, defaults
+ * and comments.
+ */
+export async function introspect(config: Config): Promise<SchemaModel> {
+  return toSchemaModel(config, await introspectEntities(config))
+}
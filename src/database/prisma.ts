@@ -10,12 +10,25 @@ import {
   type Model,
   createPrismaSchemaBuilder,
 } from '@mrleebo/prisma-ast'
-import type { Config, Desc } from '../types/index.js'
+import type { Config, Desc, EntityKeys, ForeignKeyModel } from '../types/index.js'
+
+export type PrismaSchema = ReturnType<typeof createPrismaSchemaBuilder>
+
+/**
+ * Read and parse the Prisma schema file once so it can be shared by all extractors
+ */
+export function parsePrismaSchema(config: Config): PrismaSchema {
+  const schemaPath = (config.origin as { type: 'prisma'; path: string }).path
+  return createPrismaSchemaBuilder(readFileSync(schemaPath, 'utf-8'))
+}
 
 /**
  * Extract tables and views from Prisma schema
  */
-export function extractPrismaEntities(config: Config): {
+export function extractPrismaEntities(
+  config: Config,
+  prismaSchema?: PrismaSchema
+): {
   tables: string[]
   views: string[]
   enumDeclarations: Record<string, string[]>
@@ -24,8 +37,7 @@ export function extractPrismaEntities(config: Config): {
     return { tables: [], views: [], enumDeclarations: {} }
   }
 
-  const schemaContent = readFileSync(config.origin.path, 'utf-8')
-  const schema = createPrismaSchemaBuilder(schemaContent)
+  const schema = prismaSchema ?? parsePrismaSchema(config)
 
   // Extract tables (models)
   const prismaModels = schema.findAllByType('model', {})
@@ -124,14 +136,14 @@ export function extractPrismaEntities(config: Config): {
 export function extractPrismaColumnDescriptions(
   config: Config,
   entityName: string,
-  enumDeclarations: Record<string, string[]>
+  enumDeclarations: Record<string, string[]>,
+  prismaSchema?: PrismaSchema
 ): Desc[] {
   if (config.origin.type !== 'prisma') {
     return []
   }
 
-  const schemaContent = readFileSync(config.origin.path, 'utf-8')
-  const schema = createPrismaSchemaBuilder(schemaContent)
+  const schema = prismaSchema ?? parsePrismaSchema(config)
 
   // Try to find as model first, then as view
   let entity = schema.findByType('model', { name: entityName }) as any
@@ -153,24 +165,49 @@ export function extractPrismaColumnDescriptions(
     }
   }
 
+  // Relation fields, including back relations without @relation, reference other models
+  const entityNames = new Set(
+    [...schema.findAllByType('model', {}), ...schema.findAllByType('view', {})].map(
+      (block: any) => block?.name,
+    ),
+  )
   const fields = entity.properties.filter(
     (p: any): p is Field =>
       p.type === 'field' &&
       p.array !== true &&
+      !entityNames.has(String(p.fieldType)) &&
       !p.attributes?.find((a: Attribute) => a.name === 'relation') &&
       !p.attributes?.find((a: Attribute) => a.name === 'ignore'),
   )
 
+  // Composite primary keys are declared with @@id([a, b])
+  const compositeIdFields = new Set<string>(
+    entity.properties
+      .filter((prop: any) => prop.type === 'attribute' && prop.name === 'id' && prop.kind === 'object')
+      .flatMap((prop: any) => prop.args?.[0]?.value?.args ?? [])
+  )
+
   return fields.map((field: any) => {
-    let defaultGenerated = false
+    const extras: string[] = []
     let defaultValue: string | null = null
+    let nativeType: string | undefined
+    let dbName: string | undefined
+    let isPrimaryKey = compositeIdFields.has(field.name)
 
     // Check for default values and auto-generation
     if (field.attributes) {
       for (const attr of field.attributes) {
-        if (attr.name === 'updatedAt') {
+        if (attr.group === 'db') {
+          // Native types like @db.VarChar(191) keep the length lost by the Prisma type
+          const args = (attr.args ?? []).map((arg: any) => String(arg.value))
+          nativeType = args.length > 0 ? `${attr.name}(${args.join(',')})` : attr.name
+        } else if (attr.name === 'id') {
+          isPrimaryKey = true
+        } else if (attr.name === 'map') {
+          dbName = getStringArgument(attr, 'name', true)
+        } else if (attr.name === 'updatedAt') {
           // @updatedAt is auto-generated by Prisma
-          defaultGenerated = true
+          extras.push('DEFAULT_GENERATED on update CURRENT_TIMESTAMP')
         } else if (attr.name === 'default') {
           if (attr.args && attr.args.length > 0) {
             const arg = attr.args[0]
@@ -178,8 +215,10 @@ export function extractPrismaColumnDescriptions(
               if (typeof arg.value === 'object' && arg.value.type === 'function') {
                 // Handle function calls like autoincrement(), cuid(), uuid(), now()
                 const functionName = arg.value.name
-                if (functionName === 'autoincrement' || functionName === 'cuid' || functionName === 'uuid' || functionName === 'now') {
-                  defaultGenerated = true
+                if (functionName === 'autoincrement') {
+                  extras.push('auto_increment')
+                } else if (functionName === 'cuid' || functionName === 'uuid' || functionName === 'now') {
+                  extras.push('DEFAULT_GENERATED')
                 }
               } else if (typeof arg.value === 'string') {
                 // Handle string/enum default values - remove extra quotes if present
@@ -214,15 +253,190 @@ export function extractPrismaColumnDescriptions(
     return {
       Field: field.name,
       Default: defaultValue,
-      Extra: defaultGenerated ? 'auto_increment' : '',
+      Extra: extras.join(' '),
       Null: isOptional ? 'YES' : 'NO',
       Type: fieldType,
+      ...(nativeType && { NativeType: nativeType }),
+      ...(dbName && { DbName: dbName }),
+      Key: isPrimaryKey ? 'PRI' : '',
       Comment: field.comment || '', // Extract comment from Prisma field
       EnumOptions: enumOptions,
+      EnumName: enumOptions ? fieldType : undefined,
     }
   })
 }
 
+/**
+ * Get the field names listed by an attribute, either positionally (`@@unique([a, b])`)
+ * or under a key (`@relation(fields: [a], references: [b])`)
+ */
+function getAttributeFieldNames(attribute: Attribute, key: string): string[] {
+  for (const arg of attribute.args ?? []) {
+    const value = arg.value as any
+    // Only fields can be listed positionally
+    const list = value?.type === 'keyValue'
+      ? value.key === key ? value.value : null
+      : key === 'fields' ? value : null
+    if (list?.type === 'array') {
+      // Fields can carry arguments, e.g. `@@unique([title(sort: Desc)])`
+      return list.args.map((field: any) => (typeof field === 'string' ? field : field.name))
+    }
+  }
+  return []
+}
+
+/**
+ * Get a string argument of an attribute given under a key (`@relation(map: "a")`), or also
+ * positionally when `positional` is set (`@map("a")`)
+ */
+function getStringArgument(
+  attribute: Attribute | undefined,
+  key: string,
+  positional = false,
+): string | undefined {
+  for (const arg of attribute?.args ?? []) {
+    const value = arg.value as any
+    const name =
+      value?.type === 'keyValue' ? (value.key === key ? value.value : null) : positional && value
+    if (typeof name === 'string') return name.replace(/^"|"$/g, '')
+  }
+  return undefined
+}
+
+/**
+ * Get the name of a relation, given positionally (`@relation("a")`) or under a key
+ * (`@relation(name: "a")`)
+ */
+function getRelationName(attribute: Attribute | undefined): string | undefined {
+  return getStringArgument(attribute, 'name', true)
+}
+
+/**
+ * Get the database name of a model or view, mapped with `@@map`
+ */
+function getBlockDbName(block: any): string | undefined {
+  const map = (block.properties ?? []).find(
+    (prop: any) => prop.type === 'attribute' && prop.kind === 'object' && prop.name === 'map',
+  )
+  return map ? getStringArgument(map, 'name', true) : undefined
+}
+
+/**
+ * Get the database names of the models and views mapped with `@@map`, keyed by name
+ */
+export function extractPrismaDbNames(prismaSchema: PrismaSchema): Map<string, string> {
+  const dbNames = new Map<string, string>()
+  const blocks = [
+    ...prismaSchema.findAllByType('model', {}),
+    ...prismaSchema.findAllByType('view', {}),
+  ] as any[]
+  for (const block of blocks) {
+    const dbName = block && getBlockDbName(block)
+    if (dbName) dbNames.set(block.name, dbName)
+  }
+  return dbNames
+}
+
+/**
+ * Extract the unique constraints, foreign keys and `@@index` indexes of every model, keyed by
+ * model name. Foreign keys come from the `fields` and `references` of `@relation` attributes,
+ * and keep the names of the relation fields on both sides. Foreign keys and indexes are named
+ * by their `map` argument, or else like Prisma Migrate names them: `Post_authorId_fkey`.
+ */
+export function extractPrismaEntityKeys(prismaSchema: PrismaSchema): Map<string, EntityKeys> {
+  const keys = new Map<string, EntityKeys>()
+  const models = (prismaSchema.findAllByType('model', {}) as any[]).filter(Boolean)
+  const getRelation = (field: any): Attribute | undefined =>
+    field.attributes?.find((a: Attribute) => a.name === 'relation')
+
+  // The back relation is the field of the referenced model that has the same relation name
+  // and lists no fields of its own
+  const findInverseField = (model: any, field: any): string | undefined => {
+    const referencedModel = models.find((m) => m.name === String(field.fieldType))
+    const relationName = getRelationName(getRelation(field))
+    const inverse = (referencedModel?.properties ?? []).find((prop: any) => {
+      if (prop.type !== 'field' || prop === field || String(prop.fieldType) !== model.name) {
+        return false
+      }
+      const relation = getRelation(prop)
+      return (
+        getRelationName(relation) === relationName &&
+        (!relation || getAttributeFieldNames(relation, 'fields').length === 0)
+      )
+    })
+    return inverse?.name
+  }
+
+  for (const model of models) {
+    const entityKeys: EntityKeys = { uniqueKeys: [], foreignKeys: [], indexes: [] }
+    // Default constraint names use the database names of the table and columns
+    const getDefaultName = (columns: string[], suffix: string) => {
+      const columnNames = columns.map((column) => {
+        const field = (model.properties ?? []).find(
+          (prop: any) => prop.type === 'field' && prop.name === column,
+        )
+        const map = field?.attributes?.find((a: Attribute) => a.name === 'map')
+        return getStringArgument(map, 'name', true) ?? column
+      })
+      return `${getBlockDbName(model) ?? model.name}_${columnNames.join('_')}_${suffix}`
+    }
+
+    for (const prop of model.properties ?? []) {
+      if (prop.type === 'attribute' && prop.kind === 'object' && prop.name === 'unique') {
+        entityKeys.uniqueKeys.push(getAttributeFieldNames(prop, 'fields'))
+      }
+      if (prop.type === 'attribute' && prop.kind === 'object' && prop.name === 'index') {
+        const columns = getAttributeFieldNames(prop, 'fields')
+        entityKeys.indexes.push({
+          name: getStringArgument(prop, 'map') ?? getDefaultName(columns, 'idx'),
+          columns,
+        })
+      }
+      if (prop.type !== 'field') continue
+
+      for (const attr of (prop.attributes ?? []) as Attribute[]) {
+        if (attr.name === 'unique') {
+          entityKeys.uniqueKeys.push([prop.name])
+        } else if (attr.name === 'relation') {
+          const columns = getAttributeFieldNames(attr, 'fields')
+          if (columns.length > 0) {
+            const foreignKey: ForeignKeyModel = {
+              name: getStringArgument(attr, 'map') ?? getDefaultName(columns, 'fkey'),
+              columns,
+              referencedTable: String(prop.fieldType),
+              referencedColumns: getAttributeFieldNames(attr, 'references'),
+              relationField: prop.name,
+            }
+            const inverseRelationField = findInverseField(model, prop)
+            if (inverseRelationField) foreignKey.inverseRelationField = inverseRelationField
+            entityKeys.foreignKeys.push(foreignKey)
+          }
+        }
+      }
+    }
+
+    keys.set(model.name, entityKeys)
+  }
+
+  return keys
+}
+
+/**
+ * Get the SQL dialect from the Prisma datasource provider
+ */
+export function extractPrismaDialect(
+  prismaSchema: PrismaSchema
+): 'mysql' | 'postgres' | 'sqlite' | undefined {
+  const datasource = prismaSchema.findAllByType('datasource', {})[0] as any
+  const provider = datasource?.assignments?.find((a: any) => a.key === 'provider')?.value
+  const providerName = typeof provider === 'string' ? provider.replace(/"/g, '') : ''
+
+  if (providerName === 'postgresql' || providerName === 'postgres') return 'postgres'
+  if (providerName === 'mysql') return 'mysql'
+  if (providerName === 'sqlite') return 'sqlite'
+  return undefined
+}
+
 /**
  * Check if Prisma schema has views enabled
  */
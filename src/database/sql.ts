@@ -4,18 +4,39 @@
  */
 
 import { readFileSync } from 'node:fs'
-import type { Config, Desc } from '../types/index.js'
+import type { Config, Desc, ForeignKeyModel, IndexModel } from '../types/index.js'
 
 interface ParsedTable {
   columns: ParsedColumn[]
+  comment: string
   isView: boolean
   name: string
+  uniqueKeys: string[][]
+  foreignKeys: ForeignKeyModel[]
+  indexes: IndexModel[]
 }
 
+/**
+ * Table constraint or index parsed from a CREATE TABLE line or an ALTER TABLE statement
+ */
+type ParsedConstraint =
+  | { type: 'primary'; columns: string[] }
+  | { type: 'unique'; columns: string[] }
+  | { type: 'index'; index: IndexModel }
+  | { type: 'foreign'; foreignKey: ForeignKeyModel }
+
+/** Parenthesized column list, allowing prefix lengths like `(`a`(10), `b`)` */
+const columnListPattern = String.raw`\(((?:[^()]|\([^()]*\))+)\)`
+/** Optionally schema-qualified, optionally quoted name, capturing the unqualified name */
+const qualifiedNamePattern = String.raw`(?:[\`"]?\w+[\`"]?\.)?[\`"]?(\w+)[\`"]?`
+
 interface ParsedColumn {
   comment: string
   defaultValue: string | null
+  /** Name of the Postgres enum type the column uses */
+  enumName?: string
   extra: string
+  key: string
   name: string
   nullable: boolean
   type: string
@@ -28,6 +49,7 @@ export function extractSqlEntities(config: Config): {
   tables: string[]
   views: string[]
   tableDefinitions: Map<string, ParsedTable>
+  enumDeclarations: Record<string, string[]>
 } {
   const sqlPath = (config.origin as { type: 'sql'; path: string }).path
   const sqlContent = readFileSync(sqlPath, 'utf-8')
@@ -35,10 +57,11 @@ export function extractSqlEntities(config: Config): {
   const tables: string[] = []
   const views: string[] = []
   const tableDefinitions = new Map<string, ParsedTable>()
+  const enumTypes = parseEnumTypes(sqlContent)
 
   // Find all CREATE TABLE statements by looking for the pattern and matching parentheses
   const tableRegex =
-    /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?[`"]?(\w+)[`"]?\s*\(/gi
+    /CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(?:[`"]?\w+[`"]?\.)?[`"]?(\w+)[`"]?\s*\(/gi
 
   let match
   while ((match = tableRegex.exec(sqlContent)) !== null) {
@@ -67,9 +90,10 @@ export function extractSqlEntities(config: Config): {
       if (afterParen.match(/COMMENT\s*=\s*'[^']*@@ignore[^']*'/i)) {
         continue
       }
+      const tableCommentMatch = afterParen.match(/COMMENT\s*=?\s*'((?:[^'\\]|\\.)*)'/i)
 
       const columnSection = sqlContent.substring(startIdx + 1, endIdx - 1)
-      const columns = parseColumns(columnSection)
+      const { columns, uniqueKeys, foreignKeys, indexes } = parseColumns(columnSection, enumTypes)
 
       if (columns.length > 0) {
         tables.push(tableName)
@@ -77,11 +101,18 @@ export function extractSqlEntities(config: Config): {
           name: tableName,
           isView: false,
           columns,
+          comment: tableCommentMatch ? tableCommentMatch[1].replace(/\\'/g, "'") : '',
+          uniqueKeys,
+          foreignKeys,
+          indexes,
         })
       }
     }
   }
 
+  applyCommentStatements(sqlContent, tables, tableDefinitions)
+  applyConstraintStatements(sqlContent, tableDefinitions)
+
   // Parse CREATE VIEW statements
   const viewMatches = sqlContent.matchAll(
     /CREATE\s+(?:OR\s+REPLACE\s+)?(?:SQL\s+SECURITY\s+\w+\s+)?VIEW\s+[`"]?(\w+)[`"]?/gi,
@@ -103,11 +134,52 @@ export function extractSqlEntities(config: Config): {
         name: viewName,
         isView: true,
         columns: viewColumns,
+        comment: '',
+        uniqueKeys: [],
+        foreignKeys: [],
+        indexes: [],
       })
     }
   }
 
-  return { tables, views, tableDefinitions }
+  return { tables, views, tableDefinitions, enumDeclarations: Object.fromEntries(enumTypes) }
+}
+
+/**
+ * Apply Postgres-style `COMMENT ON TABLE/COLUMN ... IS '...'` statements to the parsed tables,
+ * including the @ignore and @@ignore directives they carry
+ */
+function applyCommentStatements(
+  sqlContent: string,
+  tables: string[],
+  tableDefinitions: Map<string, ParsedTable>,
+): void {
+  const commentRegex =
+    /COMMENT\s+ON\s+(TABLE|COLUMN)\s+((?:[`"]?\w+[`"]?\.)*[`"]?\w+[`"]?)\s+IS\s+'((?:[^']|'')*)'/gi
+
+  for (const match of sqlContent.matchAll(commentRegex)) {
+    const path = match[2].split('.').map((part) => part.replace(/[`"]/g, ''))
+    const comment = match[3].replace(/''/g, "'")
+
+    if (match[1].toUpperCase() === 'TABLE') {
+      const table = tableDefinitions.get(path[path.length - 1])
+      if (table) table.comment = comment
+      continue
+    }
+
+    const table = tableDefinitions.get(path[path.length - 2])
+    const column = table?.columns.find((c) => c.name === path[path.length - 1])
+    if (column) column.comment = comment
+  }
+
+  for (const table of [...tableDefinitions.values()]) {
+    if (table.comment.includes('@@ignore')) {
+      tableDefinitions.delete(table.name)
+      tables.splice(tables.indexOf(table.name), 1)
+      continue
+    }
+    table.columns = table.columns.filter((column) => !column.comment.match(/@ignore/))
+  }
 }
 
 /**
@@ -309,6 +381,7 @@ function parseViewColumns(
         nullable,
         defaultValue: null,
         extra: '',
+        key: '',
         comment,
       })
     } else {
@@ -321,6 +394,7 @@ function parseViewColumns(
           nullable: true,
           defaultValue: null,
           extra: '',
+          key: '',
           comment: '',
         })
       }
@@ -330,21 +404,53 @@ function parseViewColumns(
   return columns
 }
 
+/**
+ * Parse Postgres `CREATE TYPE name AS ENUM (...)` statements into their values
+ */
+function parseEnumTypes(sqlContent: string): Map<string, string[]> {
+  const enumTypes = new Map<string, string[]>()
+  const enumRegex =
+    /CREATE\s+TYPE\s+(?:[`"]?\w+[`"]?\.)?[`"]?(\w+)[`"]?\s+AS\s+ENUM\s*\(([^)]*)\)/gi
+
+  for (const match of sqlContent.matchAll(enumRegex)) {
+    const values = match[2].match(/'((?:[^']|'')*)'/g) ?? []
+    enumTypes.set(
+      match[1],
+      values.map((value) => value.slice(1, -1).replace(/''/g, "'")),
+    )
+  }
+
+  return enumTypes
+}
+
 /**
  * Parse column definitions from CREATE TABLE statement body
  */
-function parseColumns(columnSection: string): ParsedColumn[] {
+function parseColumns(
+  columnSection: string,
+  enumTypes: Map<string, string[]> = new Map(),
+): Pick<ParsedTable, 'columns' | 'uniqueKeys' | 'foreignKeys' | 'indexes'> {
   const columns: ParsedColumn[] = []
+  const uniqueKeys: string[][] = []
+  const foreignKeys: ForeignKeyModel[] = []
+  const indexes: IndexModel[] = []
 
-  // Process line by line, tracking multi-line column definitions
+  // Process line by line, tracking multi-line column definitions and their trailing comments
   const lines = columnSection.split('\n')
-  const columnDefs: string[] = []
+  const columnDefs: Array<{ definition: string; comment: string }> = []
   let current = ''
+  let currentComment = ''
   let parenDepth = 0
+  const pushDefinition = (definition: string) => {
+    columnDefs.push({ definition, comment: currentComment })
+    current = ''
+    currentComment = ''
+  }
 
   for (const line of lines) {
-    const trimmedLine = line.trim()
-    if (!trimmedLine || trimmedLine.startsWith('--')) continue
+    const [trimmedLine, lineComment] = splitLineComment(line.trim())
+    if (!trimmedLine) continue
+    if (lineComment) currentComment = lineComment
 
     // Track parentheses depth for enums
     for (const char of trimmedLine) {
@@ -357,28 +463,50 @@ function parseColumns(columnSection: string): ParsedColumn[] {
     // If at depth 0 and line ends with comma, or is a complete definition
     if (parenDepth === 0) {
       if (trimmedLine.endsWith(',')) {
-        columnDefs.push(current.trim().slice(0, -1)) // Remove trailing comma
-        current = ''
+        pushDefinition(current.trim().slice(0, -1)) // Remove trailing comma
       } else if (
         !trimmedLine.includes('(') &&
         (trimmedLine.match(/,?\s*$/) ||
           trimmedLine.match(/COMMENT\s+'[^']*'\s*,?$/i))
       ) {
-        columnDefs.push(current.trim().replace(/,$/, ''))
-        current = ''
+        pushDefinition(current.trim().replace(/,$/, ''))
       }
     }
   }
 
   // Add any remaining
   if (current.trim()) {
-    columnDefs.push(current.trim().replace(/,$/, ''))
+    pushDefinition(current.trim().replace(/,$/, ''))
   }
 
-  for (const colDef of columnDefs) {
-    const trimmed = colDef.trim()
+  const primaryKeyColumns = new Set<string>()
+
+  for (const { definition, comment: trailingComment } of columnDefs) {
+    const trimmed = definition.trim()
     if (!trimmed) continue
 
+    // Table-level keys: PRIMARY KEY (`a`, `b`), UNIQUE KEY name (...), FOREIGN KEY (...) REFERENCES ...,
+    // KEY name (...)
+    const constraint = parseConstraint(trimmed)
+    if (constraint?.type === 'primary') {
+      for (const column of constraint.columns) {
+        primaryKeyColumns.add(column)
+      }
+      continue
+    }
+    if (constraint?.type === 'unique') {
+      uniqueKeys.push(constraint.columns)
+      continue
+    }
+    if (constraint?.type === 'foreign') {
+      foreignKeys.push(constraint.foreignKey)
+      continue
+    }
+    if (constraint?.type === 'index') {
+      indexes.push(constraint.index)
+      continue
+    }
+
     // Skip constraints
     if (
       trimmed.match(
@@ -397,7 +525,15 @@ function parseColumns(columnSection: string): ParsedColumn[] {
 
     // Extract type with special handling for multi-line enums
     let type = ''
-    if (rest.match(/^(enum|set)\s*\(/i)) {
+    let enumName: string | undefined
+    const enumTypeMatch = rest.match(/^(?:[`"]?\w+[`"]?\.)?[`"]?(\w+)[`"]?/)
+    if (enumTypeMatch && enumTypes.has(enumTypeMatch[1])) {
+      // Columns using a declared enum type are read like inline enums
+      enumName = enumTypeMatch[1]
+      const values = enumTypes.get(enumName) ?? []
+      type = `enum(${values.map((value) => `'${value.replace(/'/g, "''")}'`).join(',')})`
+      rest = rest.substring(enumTypeMatch[0].length).trim()
+    } else if (rest.match(/^(enum|set)\s*\(/i)) {
       // Find the closing paren for this enum
       let depth = 1
       let pos = rest.indexOf('(') + 1
@@ -409,8 +545,8 @@ function parseColumns(columnSection: string): ParsedColumn[] {
       type = rest.substring(0, pos).replace(/\s+/g, ' ').trim()
       rest = rest.substring(pos).trim()
     } else {
-      // Regular type
-      const typeMatch = rest.match(/^([\w]+(?:\([^)]+\))?)/i)
+      // Regular type, keeping MySQL signedness like `int(10) unsigned`
+      const typeMatch = rest.match(/^([\w]+(?:\([^)]+\))?(?:\s+(?:unsigned|signed|zerofill)\b)*)/i)
       if (typeMatch) {
         type = typeMatch[1].trim()
         rest = rest.substring(typeMatch[0].length).trim()
@@ -448,8 +584,8 @@ function parseColumns(columnSection: string): ParsedColumn[] {
       }
     }
 
-    // Extract COMMENT
-    let comment = ''
+    // Extract COMMENT, or else a trailing `-- comment` (SQLite has no COMMENT clause)
+    let comment = trailingComment
     const commentMatch = rest.match(/COMMENT\s+'((?:[^'\\]|\\.)*)'/i)
     if (commentMatch) {
       comment = commentMatch[1].replace(/\\'/g, "'")
@@ -473,17 +609,179 @@ function parseColumns(columnSection: string): ParsedColumn[] {
       )
     }
 
+    // Inline keys: `email` varchar(191) UNIQUE, `user_id` int REFERENCES users (id)
+    const constraintText = rest.replace(/'(?:[^'\\]|\\.)*'/g, "''")
+    if (constraintText.match(/\bUNIQUE\b/i)) {
+      uniqueKeys.push([name])
+    }
+    const referencesMatch = constraintText.match(
+      new RegExp(String.raw`\bREFERENCES\s+${qualifiedNamePattern}\s*(?:${columnListPattern})?`, 'i'),
+    )
+    if (referencesMatch) {
+      foreignKeys.push({
+        columns: [name],
+        referencedTable: referencesMatch[1],
+        referencedColumns: referencesMatch[2] ? splitColumnList(referencesMatch[2]) : [],
+      })
+    }
+
     columns.push({
       name,
       type,
       nullable,
       defaultValue,
       extra: extras.join(' '),
+      key: rest.match(/PRIMARY\s+KEY/i) ? 'PRI' : '',
       comment,
+      ...(enumName && { enumName }),
     })
   }
 
-  return columns
+  for (const column of columns) {
+    if (primaryKeyColumns.has(column.name)) {
+      column.key = 'PRI'
+    }
+  }
+
+  return { columns, uniqueKeys, foreignKeys, indexes }
+}
+
+/**
+ * Split a trailing `-- comment` off a line, ignoring `--` within quoted strings and identifiers
+ */
+function splitLineComment(line: string): [code: string, comment: string] {
+  let quote = ''
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = ''
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char
+    } else if (line.startsWith('--', i)) {
+      return [line.slice(0, i).trimEnd(), line.slice(i + 2).trim()]
+    }
+  }
+  return [line, '']
+}
+
+/**
+ * Parse a PRIMARY KEY, UNIQUE or FOREIGN KEY table constraint, optionally named with CONSTRAINT,
+ * or a MySQL KEY or INDEX definition
+ */
+function parseConstraint(definition: string): ParsedConstraint | null {
+  const constraintName = String.raw`(?:CONSTRAINT\s+\S+\s+)?`
+  const indexName = String.raw`(?:\s+[\`"]?\w+[\`"]?)?`
+  const name = definition.match(/^CONSTRAINT\s+[`"]?(\w+)[`"]?/i)?.[1]
+
+  const primaryKeyMatch = definition.match(
+    new RegExp(String.raw`^${constraintName}PRIMARY\s+KEY\s*${columnListPattern}`, 'i'),
+  )
+  if (primaryKeyMatch) {
+    return { type: 'primary', columns: splitColumnList(primaryKeyMatch[1]) }
+  }
+
+  const uniqueMatch = definition.match(
+    new RegExp(String.raw`^${constraintName}UNIQUE(?:\s+(?:KEY|INDEX))?${indexName}\s*${columnListPattern}`, 'i'),
+  )
+  if (uniqueMatch) {
+    return { type: 'unique', columns: splitColumnList(uniqueMatch[1]) }
+  }
+
+  const foreignKeyMatch = definition.match(
+    new RegExp(
+      String.raw`^${constraintName}FOREIGN\s+KEY${indexName}\s*${columnListPattern}\s*REFERENCES\s+${qualifiedNamePattern}\s*(?:${columnListPattern})?`,
+      'i',
+    ),
+  )
+  if (foreignKeyMatch) {
+    return {
+      type: 'foreign',
+      foreignKey: {
+        ...(name && { name }),
+        columns: splitColumnList(foreignKeyMatch[1]),
+        referencedTable: foreignKeyMatch[2],
+        referencedColumns: foreignKeyMatch[3] ? splitColumnList(foreignKeyMatch[3]) : [],
+      },
+    }
+  }
+
+  const indexMatch = definition.match(
+    new RegExp(String.raw`^(?:KEY|INDEX)(?:\s+[\`"]?(\w+)[\`"]?)?\s*${columnListPattern}`, 'i'),
+  )
+  if (indexMatch) {
+    const columns = splitColumnList(indexMatch[2])
+    return { type: 'index', index: indexMatch[1] ? { name: indexMatch[1], columns } : { columns } }
+  }
+
+  return null
+}
+
+/**
+ * Apply keys declared outside CREATE TABLE, as pg_dump and sqlite dumps write them:
+ * `ALTER TABLE ... ADD [CONSTRAINT name] PRIMARY KEY | UNIQUE | FOREIGN KEY ...` and
+ * `CREATE [UNIQUE] INDEX ... ON table (...)`. Foreign keys without a column list then
+ * get the primary key of the referenced table.
+ */
+function applyConstraintStatements(
+  sqlContent: string,
+  tableDefinitions: Map<string, ParsedTable>,
+): void {
+  const alterRegex = new RegExp(
+    String.raw`ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?${qualifiedNamePattern}\s+ADD\s+([^;]+)`,
+    'gi',
+  )
+  for (const match of sqlContent.matchAll(alterRegex)) {
+    const table = tableDefinitions.get(match[1])
+    const constraint = parseConstraint(match[2].trim())
+    if (!table || !constraint) continue
+
+    if (constraint.type === 'primary') {
+      for (const column of table.columns) {
+        if (constraint.columns.includes(column.name)) column.key = 'PRI'
+      }
+    } else if (constraint.type === 'unique') {
+      table.uniqueKeys.push(constraint.columns)
+    } else if (constraint.type === 'foreign') {
+      table.foreignKeys.push(constraint.foreignKey)
+    } else {
+      table.indexes.push(constraint.index)
+    }
+  }
+
+  const indexRegex = new RegExp(
+    String.raw`CREATE\s+(UNIQUE\s+)?INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?${qualifiedNamePattern}\s+ON\s+(?:ONLY\s+)?${qualifiedNamePattern}\s*(?:USING\s+\w+\s*)?${columnListPattern}`,
+    'gi',
+  )
+  for (const match of sqlContent.matchAll(indexRegex)) {
+    const table = tableDefinitions.get(match[3])
+    const columns = splitColumnList(match[4])
+    if (match[1]) {
+      table?.uniqueKeys.push(columns)
+    } else {
+      table?.indexes.push({ name: match[2], columns })
+    }
+  }
+
+  for (const table of tableDefinitions.values()) {
+    for (const foreignKey of table.foreignKeys) {
+      if (foreignKey.referencedColumns.length > 0) continue
+      const referenced = tableDefinitions.get(foreignKey.referencedTable)
+      foreignKey.referencedColumns = (referenced?.columns ?? [])
+        .filter((column) => column.key === 'PRI')
+        .map((column) => column.name)
+    }
+  }
+}
+
+/**
+ * Split a constraint column list like "`a`, `b`(10)" into plain column names
+ */
+function splitColumnList(list: string): string[] {
+  return list
+    .split(',')
+    .map((column) => column.trim().replace(/\(.*\)$/, '').replace(/[`"]/g, '').trim())
+    .filter((column) => column.length > 0)
 }
 
 /**
@@ -505,7 +803,10 @@ export function extractSqlColumnDescriptions(
       : undefined
 
     // Extract base data type
-    const dataType = col.type.split('(')[0].toLowerCase()
+    const dataType = col.type
+      .split('(')[0]
+      .replace(/\s+(?:unsigned|signed|zerofill)\b.*$/i, '')
+      .toLowerCase()
 
     return {
       Field: col.name,
@@ -514,8 +815,10 @@ export function extractSqlColumnDescriptions(
       Null: col.nullable ? 'YES' : 'NO',
       Default: col.defaultValue,
       Extra: col.extra,
+      Key: col.key,
       Comment: col.comment,
       EnumOptions: enumOptions,
+      ...(col.enumName && { EnumName: col.enumName }),
     }
   })
 }
@@ -0,0 +1,80 @@
+/**
+ * ArkType definition generation
+ */
+
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { defaultArkTypeHeader } from '../constants.js'
+import { type ColumnType, resolveColumnType } from './column-type.js'
+import type { SchemaLibrary } from './schema-generator.js'
+
+/**
+ * Render the ArkType string definition of a column type, without nullability or defaults
+ */
+function getArkTypeBaseDefinition(column: ColumnType): string {
+  if (column.kind === 'expression') {
+    return column.expression as string
+  }
+  if (column.kind === 'enum') {
+    return column.enumValues.map((v) => `'${v}'`).join(' | ')
+  }
+  if (column.kind === 'date') {
+    return 'Date'
+  }
+  if (column.kind === 'number' || column.kind === 'boolean') {
+    return column.kind
+  }
+  return column.minLength ? 'string > 0' : 'string'
+}
+
+/**
+ * Quote a definition as a string literal, switching to double quotes when it contains literals
+ */
+function quoteDefinition(definition: string): string {
+  return definition.includes("'") ? JSON.stringify(definition) : `'${definition}'`
+}
+
+/**
+ * Generate the ArkType definition of a database field
+ */
+export function getArkTypeType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): string {
+  const column = resolveColumnType(op, desc, config, destination, 'arktype', entityName)
+
+  let definition = getArkTypeBaseDefinition(column)
+  if (column.nullable) {
+    definition += ' | null'
+  }
+  if (column.default !== null) {
+    // Keys with a default are optional, so they are never marked with `?`
+    definition += ` = ${column.default}`
+  }
+
+  return quoteDefinition(definition)
+}
+
+/**
+ * Check if a field is an optional key (`'key?'`) in an ArkType object definition
+ */
+export function isArkTypeOptionalKey(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): boolean {
+  const column = resolveColumnType(op, desc, config, destination, 'arktype', entityName)
+  return column.default === null && column.optionalKey
+}
+
+export const arkTypeLibrary: SchemaLibrary = {
+  header: defaultArkTypeHeader,
+  object: (fields) => `type({\n${fields}})`,
+  infer: (schemaName) => `typeof ${schemaName}.infer`,
+  getType: getArkTypeType,
+  isOptionalKey: isArkTypeOptionalKey,
+}
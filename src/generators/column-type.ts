@@ -0,0 +1,425 @@
+/**
+ * Library-independent column typing shared by the schema destinations
+ */
+
+import type { Config, Desc, Destination, Dialect, OperationType } from '../types/index.js'
+import { enumRegex, getTypeMappings } from '../types/mappings.js'
+import { extractTypeExpression } from '../utils/magic-comments.js'
+
+export type OverrideKey = keyof NonNullable<Config['overrideTypes']>
+
+export type ColumnKind =
+  | 'expression'
+  | 'enum'
+  | 'date'
+  | 'bigint'
+  | 'decimal'
+  | 'number'
+  | 'boolean'
+  | 'string'
+
+/**
+ * What a schema library needs to render one column for one operation
+ */
+export interface ColumnType {
+  kind: ColumnKind
+  /** User-supplied type for 'expression' (overrideColumns, magic comments, overrideTypes) */
+  expression?: string
+  /** Values of 'enum' columns */
+  enumValues: string[]
+  /** Value can be null */
+  nullable: boolean
+  /** Key can be left out of the input */
+  optional: boolean
+  /** Generated ids and dates can be left out of the table and selectable shapes */
+  omittable: boolean
+  /** Key is optional in the rendered shape; nullable input fields stay required, but accept null */
+  optionalKey: boolean
+  /** Default value as a JavaScript literal, applied when the key is left out */
+  default: string | null
+  /** Trim string input */
+  trim: boolean
+  /** Reject empty string input */
+  minLength: boolean
+  /** Declared length of varchar(n) and char(n) columns */
+  maxLength?: number
+}
+
+/**
+ * Get the declared maximum length of varchar(n) and char(n) columns
+ */
+export function getMaxLength(type: string): number | undefined {
+  const match = type.match(/^(?:n?varchar|n?char|character varying|character)\s*\((\d+)\)/i)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Check if a number type holds fractional values; the other number types hold integers
+ */
+export function isFloatType(dataType: string): boolean {
+  return /float|double|real|numeric/i.test(dataType)
+}
+
+// Signed ranges of integer types by storage size; unsigned types range from 0 to 2 * max + 1
+const integerRanges: Record<string, [number, number]> = {
+  tinyint: [-128, 127],
+  smallint: [-32768, 32767],
+  int2: [-32768, 32767],
+  smallserial: [-32768, 32767],
+  mediumint: [-8388608, 8388607],
+  int: [-2147483648, 2147483647],
+  integer: [-2147483648, 2147483647],
+  int4: [-2147483648, 2147483647],
+  serial: [-2147483648, 2147483647],
+  Int: [-2147483648, 2147483647],
+}
+
+/**
+ * Get the range of integer columns from their type and signedness, e.g. 0 to 255 for
+ * `tinyint unsigned`, MySQL `year` included. SQLite integers are unbounded whatever their
+ * declared type, and other columns have no range.
+ */
+export function getIntegerRange(
+  desc: Desc,
+  config: Config,
+  dataType: string,
+): { min?: number; max?: number } | undefined {
+  const dialect = config.origin.type === 'sql' ? config.origin.dialect || 'mysql' : config.origin.type
+  if (dialect === 'mysql' && dataType === 'year') {
+    return { min: 1901, max: 2155 }
+  }
+  const range = integerRanges[dataType]
+  if (!range) return undefined
+  if (dialect === 'sqlite') return {}
+
+  const [min, max] = range
+  return parseColumnType(desc.Type).attributes.includes('unsigned')
+    ? { min: 0, max: 2 * max + 1 }
+    : { min, max }
+}
+
+/**
+ * Get a regular expression literal matching the values of `decimal(p, s)` columns: up to
+ * p - s integer digits and s fractional digits, without a sign for unsigned columns
+ */
+export function getDecimalPattern(type: string): string | undefined {
+  const { params, attributes } = parseColumnType(type)
+  const [precision, scale = 0] = params.map(Number)
+  if (!Number.isInteger(precision) || !Number.isInteger(scale)) return undefined
+
+  const sign = attributes.includes('unsigned') ? '' : '-?'
+  const integerPart = precision > scale ? `\\d{1,${precision - scale}}` : '0'
+  const fractionPart = scale > 0 ? `(?:\\.\\d{1,${scale}})?` : ''
+  return `/^${sign}${integerPart}${fractionPart}$/`
+}
+
+/**
+ * Get the data type used for type category matching
+ */
+export function getDataType(desc: Desc, config: Config): string {
+  const { Type, DataType } = desc
+  const schemaType = config.origin.type
+  // For Prisma, preserve case; for others, convert to lowercase
+  const type = schemaType === 'prisma' ? Type : Type.toLowerCase()
+  // Use DataType (normalized type from DB) for type category matching, fallback to Type
+  let dataType = DataType
+    ? schemaType === 'prisma'
+      ? DataType
+      : DataType.toLowerCase()
+    : type
+
+  // Handle MySQL tinyint(1) as boolean when tinyIntAsBoolean option is enabled (default true)
+  const isMySQL =
+    schemaType === 'mysql' ||
+    (schemaType === 'sql' && (config.origin as any).dialect === 'mysql')
+  const tinyIntAsBoolean =
+    isMySQL && (config.origin as any).tinyIntAsBoolean !== false
+  const isTinyInt1 =
+    isMySQL && dataType === 'tinyint' && Type.toLowerCase().includes('(1)')
+  if (tinyIntAsBoolean && isTinyInt1) {
+    dataType = 'boolean'
+  }
+
+  return dataType
+}
+
+/**
+ * Split a column type like `int(10) unsigned` or `timestamp(3) with time zone`
+ * into its lowercase base type, parameters and trailing attributes
+ */
+export function parseColumnType(type: string): { base: string; params: string[]; attributes: string } {
+  const normalized = type.toLowerCase().trim()
+  const paramsMatch = normalized.match(/\(([^)]*)\)/)
+  const params = paramsMatch ? paramsMatch[1].split(',').map((param) => param.trim()) : []
+
+  const withoutParams = normalized.replace(/\([^)]*\)/, ' ').replace(/\s+/g, ' ').trim()
+  const attributesMatch = withoutParams.match(/ (?:unsigned|zerofill|signed|with|without)\b.*$/)
+  return {
+    base: attributesMatch ? withoutParams.slice(0, attributesMatch.index) : withoutParams,
+    params,
+    attributes: attributesMatch ? attributesMatch[0].trim() : '',
+  }
+}
+
+/**
+ * Get the type mappings of the config origin
+ */
+export function getOriginTypeMappings(config: Config): ReturnType<typeof getTypeMappings> {
+  const dialect =
+    config.origin.type === 'sql' ? config.origin.dialect : undefined
+  return getTypeMappings(config.origin.type, dialect)
+}
+
+/**
+ * Get the SQL dialect of the config origin, for destinations that describe SQL tables
+ */
+export function getOriginDialect(config: Config, destinationType: string): Dialect {
+  if (config.origin.type === 'prisma') {
+    throw new Error(`The ${destinationType} destination does not support Prisma origins`)
+  }
+  return config.origin.type === 'sql' ? config.origin.dialect || 'mysql' : config.origin.type
+}
+
+/**
+ * Get the values of an enum column, or an empty list for other columns
+ */
+export function getEnumValues(desc: Desc, config: Config, dataType: string): string[] {
+  const { Type, EnumOptions } = desc
+  const schemaType = config.origin.type
+  const type = schemaType === 'prisma' ? Type : Type.toLowerCase()
+  const dialect = config.origin.type === 'sql' ? config.origin.dialect : undefined
+  const typeMappings = getOriginTypeMappings(config)
+
+  const enumTypesForSchema = typeMappings.enumTypes || []
+  // Postgres reports enum columns as USER-DEFINED; introspection names the ones backed by pg_type enums
+  const isEnum =
+    enumTypesForSchema.includes(dataType) ||
+    (schemaType === 'postgres' && desc.EnumName !== undefined && EnumOptions !== undefined)
+
+  // For Prisma, also check if the type exists in enumDeclarations
+  const isPrismaEnum =
+    schemaType === 'prisma' &&
+    config.enumDeclarations &&
+    config.enumDeclarations[type]
+
+  if (!isEnum && !isPrismaEnum) {
+    return []
+  }
+
+  // Check if this is a MySQL enum (including SQL files with MySQL dialect)
+  const isMySQLEnum =
+    (schemaType === 'mysql' || (schemaType === 'sql' && dialect === 'mysql')) &&
+    dataType === 'enum'
+
+  if (isMySQLEnum) {
+    const match = Type.match(enumRegex)
+    if (match) {
+      return match[1].split(',').map((v) => v.trim().replace(/'/g, ''))
+    }
+  } else if ((schemaType === 'postgres' || schemaType === 'sql') && EnumOptions) {
+    return EnumOptions
+  } else if (isPrismaEnum && config.enumDeclarations) {
+    return config.enumDeclarations[type]
+  }
+
+  return []
+}
+
+/**
+ * Get the name of the enum type of a column, when the origin declares one
+ * (Postgres enum types and Prisma enums)
+ */
+export function getDeclaredEnumName(desc: Desc, config: Config): string | undefined {
+  if (desc.EnumName) return desc.EnumName
+  return config.origin.type === 'prisma' && config.enumDeclarations?.[desc.Type]
+    ? desc.Type
+    : undefined
+}
+
+/**
+ * Format a column default as a JavaScript literal
+ */
+export function formatDefaultValue(
+  value: string,
+  dataType: string,
+  typeMappings: ReturnType<typeof getTypeMappings>,
+): string {
+  if (
+    typeMappings.stringTypes.includes(dataType) ||
+    typeMappings.dateTypes.includes(dataType)
+  ) {
+    return `'${value}'`
+  }
+  if (typeMappings.booleanTypes.includes(dataType)) {
+    const normalizedDefault = value.toLowerCase()
+    return normalizedDefault === 'true' || normalizedDefault === '1' ? 'true' : 'false'
+  }
+  if (typeMappings.numberTypes.includes(dataType)) {
+    return value
+  }
+  return `'${value}'`
+}
+
+/**
+ * Find the overrideColumns entry of a column for a destination
+ */
+export function getColumnOverride(
+  config: Config,
+  key: OverrideKey,
+  entityName: string | undefined,
+  field: string,
+): string | null {
+  if (!entityName) return null
+  return config.overrideColumns?.[key]?.[entityName]?.[field] ?? null
+}
+
+/**
+ * Resolve a column into the type category and modifiers a schema library renders,
+ * with the same precedence and nullability rules as the Zod destination:
+ * overrideColumns, then `@<key>(...)` magic comments, then overrideTypes, then enums
+ * and the origin type mappings.
+ */
+export function resolveColumnType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  key: OverrideKey,
+  entityName?: string,
+): ColumnType {
+  const column = resolveColumn(op, desc, config, destination, key, entityName)
+  column.optionalKey = column.nullable
+    ? column.omittable && !column.optional
+    : column.optional || column.omittable
+  return column
+}
+
+/**
+ * Resolve everything but the optional key, which derives from the other modifiers
+ */
+function resolveColumn(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  key: OverrideKey,
+  entityName?: string,
+): ColumnType {
+  const { Default, Extra, Null, Type, Comment } = desc
+  const { useTrim, requiredString } = destination as {
+    useTrim?: boolean
+    requiredString?: boolean
+  }
+  const dataType = getDataType(desc, config)
+  const typeMappings = getOriginTypeMappings(config)
+
+  const isNull = Null === 'YES'
+  const hasDefaultValue = Default !== null
+  const isGenerated =
+    Extra.toLowerCase().includes('auto_increment') ||
+    Extra.toLowerCase().includes('default_generated')
+  const isInput = op === 'insertable' || op === 'updateable'
+
+  const shouldBeOptional =
+    (op === 'insertable' && (hasDefaultValue || isGenerated)) || op === 'updateable'
+  const defaultValue = (formatted: string) =>
+    op !== 'selectable' && hasDefaultValue && !isGenerated ? formatted : null
+
+  const columnType: ColumnType = {
+    kind: 'string',
+    enumValues: [],
+    nullable: isNull,
+    optional: shouldBeOptional,
+    omittable: false,
+    optionalKey: false,
+    default: null,
+    trim: false,
+    minLength: false,
+  }
+
+  // Overrides replace the type but keep the input rules, so they accept null whenever
+  // the column may be left out
+  const overrideNullable =
+    isNull ||
+    (isInput && (hasDefaultValue || isGenerated)) ||
+    (op === 'updateable' && !isNull && !hasDefaultValue)
+
+  const columnOverride = getColumnOverride(config, key, entityName, desc.Field)
+  if (columnOverride) {
+    return {
+      ...columnType,
+      kind: 'expression',
+      expression: columnOverride,
+      nullable: overrideNullable,
+      optional: false,
+    }
+  }
+
+  if (config.magicComments) {
+    const magicExpression = extractTypeExpression(Comment, `@${key}(`)
+    if (magicExpression) {
+      // Magic comments completely override the type, without any modifier
+      return {
+        ...columnType,
+        kind: 'expression',
+        expression: magicExpression,
+        nullable: false,
+        optional: false,
+      }
+    }
+  }
+
+  const overrideType = config.overrideTypes?.[key]?.[Type]
+  if (overrideType) {
+    return {
+      ...columnType,
+      kind: 'expression',
+      expression: overrideType,
+      nullable: overrideNullable,
+      default: defaultValue(formatDefaultValue(Default ?? '', dataType, typeMappings)),
+    }
+  }
+
+  const enumValues = getEnumValues(desc, config, dataType)
+  if (enumValues.length > 0) {
+    return {
+      ...columnType,
+      kind: 'enum',
+      enumValues,
+      default: defaultValue(`'${Default}'`),
+    }
+  }
+
+  if (typeMappings.dateTypes.includes(dataType)) {
+    columnType.kind = 'date'
+  } else if (typeMappings.bigIntTypes.includes(dataType)) {
+    columnType.kind = 'bigint'
+  } else if (typeMappings.decimalTypes.includes(dataType)) {
+    columnType.kind = 'decimal'
+    // Only validate input schemas; selectable schemas describe data already stored
+    columnType.trim = op !== 'selectable'
+    columnType.minLength = op !== 'selectable' && !(hasDefaultValue || isNull)
+  } else if (typeMappings.numberTypes.includes(dataType)) {
+    columnType.kind = 'number'
+  } else if (typeMappings.booleanTypes.includes(dataType)) {
+    columnType.kind = 'boolean'
+  } else if (typeMappings.stringTypes.includes(dataType)) {
+    columnType.trim = useTrim === true && op !== 'selectable'
+    columnType.minLength =
+      requiredString === true && !isNull && op !== 'selectable' && !hasDefaultValue
+    columnType.maxLength = getMaxLength(Type)
+  }
+
+  columnType.default = defaultValue(formatDefaultValue(Default ?? '', dataType, typeMappings))
+
+  const isDateField = columnType.kind === 'date'
+  const isIdField =
+    columnType.kind === 'number' ||
+    columnType.kind === 'bigint' ||
+    typeMappings.stringTypes.includes(dataType)
+  columnType.omittable =
+    (op === 'table' || op === 'selectable') &&
+    ((isDateField && (hasDefaultValue || isGenerated)) || (isIdField && isGenerated))
+
+  return columnType
+}
@@ -3,42 +3,26 @@
  */
 
 import camelCase from 'camelcase'
-import type { GenerateContentParams, GenerateViewContentParams, Desc } from '../types/index.js'
-import { getType } from './type-generator.js'
-import { getTypeMappings } from '../types/mappings.js'
+import type {
+  Config,
+  Desc,
+  Destination,
+  EnumModel,
+  GenerateContentParams,
+  GenerateViewContentParams,
+  OperationType,
+} from '../types/index.js'
+import { getIdBrandName, getSharedEnumName, getType, getTsEnumName } from './type-generator.js'
+import { getDataType, getEnumValues } from './column-type.js'
 import { applyInflection } from '../utils/inflection.js'
-
-/**
- * Check if a field is an auto-generated datetime field that should be excluded from updateable schemas
- */
-function isAutoGeneratedDateTimeField(desc: Desc, schemaType: string): boolean {
-  const { Type, Extra } = desc
-  const type = schemaType === 'prisma' ? Type : Type.toLowerCase()
-
-  // Get type mappings to check if this is a date/datetime field
-  const typeMappings = getTypeMappings(schemaType as 'mysql' | 'postgres' | 'sqlite' | 'prisma')
-  const isDateField = typeMappings.dateTypes.includes(type)
-
-  if (!isDateField) {
-    return false // Not a date field, so not an auto-generated datetime
-  }
-
-  // Check if the field is auto-generated
-  const isGenerated = Extra.toLowerCase().includes('auto_increment') ||
-                     Extra.toLowerCase().includes('default_generated')
-
-  return isGenerated
-}
-
-/**
- * Convert PascalCase/camelCase to snake_case
- */
-function toSnakeCase(str: string): string {
-  return str
-    .replace(/([A-Z])/g, '_$1')
-    .toLowerCase()
-    .replace(/^_/, '')
-}
+import {
+  generateSchemaContent,
+  generateSchemaViewContent,
+  isAutoGeneratedDateTimeField,
+  toSnakeCase,
+} from './schema-generator.js'
+import { schemaLibraries } from './schema-libraries.js'
+import { generateJsonSchemaContent, generateJsonSchemaViewContent } from './jsonschema-generator.js'
 
 /**
  * Generate content for database views (read-only)
@@ -52,6 +36,27 @@ export function generateViewContent({
   enumDeclarations: _enumDeclarations,
   defaultZodHeader,
 }: GenerateViewContentParams): string {
+  const schemaLibrary = schemaLibraries[destination.type]
+  if (schemaLibrary) {
+    return generateSchemaViewContent(schemaLibrary, {
+      entity: view,
+      describes,
+      config,
+      destination,
+      isCamelCase,
+    })
+  }
+
+  if (destination.type === 'jsonschema') {
+    return generateJsonSchemaViewContent({
+      entity: view,
+      describes,
+      config,
+      destination,
+      isCamelCase,
+    })
+  }
+
   let content = ''
   const inflectedView = applyInflection(view, config.inflection)
 
@@ -74,16 +79,13 @@ export function generateViewContent({
   } else if (destination.type === 'ts') {
     // For TypeScript views, generate a single interface (read-only)
     const pascalView = camelCase(inflectedView, { pascalCase: true })
-    content += `// TypeScript interface for ${view} (view - read-only)\n`
-    content += `export interface ${pascalView}View {\n`
-
-    for (const desc of describes) {
-      const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
-      const fieldType = getType('selectable', desc, config, destination, view)
-      content += `  ${fieldName}: ${fieldType};\n`
-    }
+    const enums = new Map<string, string[]>()
+    const fields = renderTsFields('selectable', view, describes, config, destination, isCamelCase, enums)
 
-    content += '}\n'
+    content += renderSharedImports(view, describes, config, destination)
+    content += `// TypeScript ${getTsModelLabel(destination, 'interface')} for ${view} (view - read-only)\n`
+    content += renderTsEnums(enums)
+    content += renderTsModel(destination, `${pascalView}View`, fields)
   } else if (destination.type === 'zod') {
     // For Zod views, generate a single schema (read-only)
     const version = (destination as any).version || 3
@@ -92,6 +94,7 @@ export function generateViewContent({
     if (!content.includes(header)) {
       content += header
     }
+    content += renderSharedImports(view, describes, config, destination)
 
     content += `// View schema (read-only)\n`
     const snakeView = toSnakeCase(view)
@@ -126,6 +129,27 @@ export function generateContent({
   enumDeclarations: _enumDeclarations,
   defaultZodHeader,
 }: GenerateContentParams): string {
+  const schemaLibrary = schemaLibraries[destination.type]
+  if (schemaLibrary) {
+    return generateSchemaContent(schemaLibrary, {
+      entity: table,
+      describes,
+      config,
+      destination,
+      isCamelCase,
+    })
+  }
+
+  if (destination.type === 'jsonschema') {
+    return generateJsonSchemaContent({
+      entity: table,
+      describes,
+      config,
+      destination,
+      isCamelCase,
+    })
+  }
+
   let content = ''
 
   if (destination.type === 'ts') {
@@ -158,6 +182,164 @@ export function generateContent({
   return content
 }
 
+/**
+ * Import the shared enums and branded ID types that an entity's fields reference from the
+ * destination's enums and ids modules
+ */
+function renderSharedImports(
+  entity: string,
+  describes: Desc[],
+  config: Config,
+  destination: Destination,
+): string {
+  const imports = [
+    renderSharedImport(entity, describes, config, destination, './enums', (desc) =>
+      getSharedEnumName(desc, config, destination),
+    ),
+    renderSharedImport(entity, describes, config, destination, './ids', (desc) =>
+      getIdBrandName(desc, destination),
+    ),
+  ].join('')
+  return imports ? `${imports}\n` : ''
+}
+
+/**
+ * Import the names that fields use from a shared module
+ */
+function renderSharedImport(
+  entity: string,
+  describes: Desc[],
+  config: Config,
+  destination: Destination,
+  modulePath: string,
+  getName: (desc: Desc) => string | undefined,
+): string {
+  const names = new Set<string>()
+  for (const desc of describes) {
+    const name = getName(desc)
+    if (!name) continue
+    // Overrides and magic comments replace the shared type, so only referenced names are imported
+    const fieldType = getType('selectable', desc, config, destination, entity)
+    if (new RegExp(`^${name}(?:$|[. ])`).test(fieldType)) {
+      names.add(name)
+    }
+  }
+  if (names.size === 0) return ''
+
+  const keyword = destination.type === 'ts' ? 'import type' : 'import'
+  return `${keyword} { ${[...names].sort().join(', ')} } from '${modulePath}';\n`
+}
+
+/**
+ * Generate the enums module of a destination with `sharedEnums`: a Zod schema, or a TypeScript
+ * type or enum, per enum declared by the origin
+ */
+export function generateEnumsContent(
+  enums: EnumModel[],
+  destination: Destination,
+  defaultZodHeader: (version: 3 | 4) => string,
+): string {
+  const named = enums.map(({ name, values }) => ({
+    name: camelCase(name, { pascalCase: true }),
+    values,
+  }))
+
+  if (destination.type === 'zod') {
+    let content = destination.header ? '' : defaultZodHeader(destination.version || 3)
+    content += named
+      .map(({ name, values }) => `export const ${name} = z.enum([${values.map((v) => `'${v}'`).join(',')}])\n`)
+      .join('\n')
+    return content
+  }
+
+  if ((destination as { enumType?: 'union' | 'enum' }).enumType === 'enum') {
+    return renderTsEnums(new Map(named.map(({ name, values }) => [name, values]))).replace(/\n$/, '')
+  }
+  return named
+    .map(({ name, values }) => `export type ${name} = ${values.map((v) => `'${v}'`).join(' | ')};\n`)
+    .join('')
+}
+
+/**
+ * Turn an enum value into a TypeScript enum member name, quoting values that are not identifiers
+ */
+function getTsEnumMemberName(value: string, usedNames: Set<string>): string {
+  const name = camelCase(value, { pascalCase: true })
+  if (/^[A-Za-z_$][\w$]*$/.test(name) && !usedNames.has(name)) {
+    usedNames.add(name)
+    return name
+  }
+  return `'${value}'`
+}
+
+/**
+ * Render exported TypeScript enum declarations
+ */
+function renderTsEnums(enums: Map<string, string[]>): string {
+  let content = ''
+  for (const [name, values] of enums) {
+    const usedNames = new Set<string>()
+    content += `export enum ${name} {\n`
+    for (const value of values) {
+      content += `  ${getTsEnumMemberName(value, usedNames)} = '${value}',\n`
+    }
+    content += '}\n\n'
+  }
+  return content
+}
+
+/**
+ * "interface"/"interfaces" or "type"/"types", depending on the destination's modelType
+ */
+function getTsModelLabel(destination: Destination, label: 'interface' | 'interfaces'): string {
+  const modelType = (destination as { modelType?: 'interface' | 'type' }).modelType
+  return modelType === 'type' ? label.replace('interface', 'type') : label
+}
+
+/**
+ * Render a TypeScript interface, or a type alias with `modelType: 'type'`
+ */
+function renderTsModel(destination: Destination, name: string, fields: string): string {
+  const modelType = (destination as { modelType?: 'interface' | 'type' }).modelType
+  return modelType === 'type'
+    ? `export type ${name} = {\n${fields}};\n`
+    : `export interface ${name} {\n${fields}}\n`
+}
+
+/**
+ * Render TypeScript fields, collecting the enums they reference with `enumType: 'enum'`
+ */
+function renderTsFields(
+  op: OperationType,
+  entity: string,
+  describes: Desc[],
+  config: Config,
+  destination: Destination,
+  isCamelCase: boolean,
+  enums: Map<string, string[]>,
+): string {
+  const useEnums = (destination as { enumType?: 'union' | 'enum' }).enumType === 'enum'
+  let fields = ''
+
+  for (const desc of describes) {
+    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
+    const fieldType = getType(op, desc, config, destination, entity)
+    fields += `  ${fieldName}: ${fieldType};\n`
+
+    const enumValues = useEnums ? getEnumValues(desc, config, getDataType(desc, config)) : []
+    if (enumValues.length > 0 && !getSharedEnumName(desc, config, destination)) {
+      // Overrides and magic comments replace the enum, so only referenced enums are declared.
+      // Other columns can share the name, e.g. the `UserId` brand of `users.id`
+      const enumName = getTsEnumName(desc, config, entity)
+      if (fieldType.replace(/ \| null$/, '') === enumName) {
+        enums.set(enumName, enumValues)
+      }
+    }
+  }
+
+  return fields
+}
+
 /**
  * Generate TypeScript interface content
  */
@@ -169,53 +351,33 @@ function generateTypeScriptContent({
   isCamelCase,
 }: {
   table: string
-  describes: any[]
-  config: any
-  destination: any
+  describes: Desc[]
+  config: Config
+  destination: Destination
   isCamelCase: boolean
 }): string {
-  let content = ''
   const inflectedTable = applyInflection(table, config.inflection)
   const pascalTable = camelCase(inflectedTable, { pascalCase: true })
+  const enums = new Map<string, string[]>()
+  const renderModel = (op: OperationType, name: string) =>
+    renderTsModel(
+      destination,
+      name,
+      renderTsFields(op, table, describes, config, destination, isCamelCase, enums),
+    )
 
-  // Generate main interface
-  content += `// TypeScript interfaces for ${table}\n\n`
-  content += `export interface ${pascalTable} {\n`
-
-  for (const desc of describes) {
-    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
-    const fieldType = getType('table', desc, config, destination, table)
-    content += `  ${fieldName}: ${fieldType};\n`
-  }
-
-  content += '}\n\n'
-
-  // Generate insertable interface
-  content += `export interface Insertable${pascalTable} {\n`
-  for (const desc of describes) {
-    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
-    const fieldType = getType('insertable', desc, config, destination, table)
-    content += `  ${fieldName}: ${fieldType};\n`
-  }
-  content += '}\n\n'
-
-  // Generate updateable interface
-  content += `export interface Updateable${pascalTable} {\n`
-  for (const desc of describes) {
-    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
-    const fieldType = getType('updateable', desc, config, destination, table)
-    content += `  ${fieldName}: ${fieldType};\n`
-  }
-  content += '}\n\n'
+  // Main, insertable, updateable and selectable models
+  const models = [
+    renderModel('table', pascalTable),
+    renderModel('insertable', `Insertable${pascalTable}`),
+    renderModel('updateable', `Updateable${pascalTable}`),
+    renderModel('selectable', `Selectable${pascalTable}`),
+  ]
 
-  // Generate selectable interface
-  content += `export interface Selectable${pascalTable} {\n`
-  for (const desc of describes) {
-    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
-    const fieldType = getType('selectable', desc, config, destination, table)
-    content += `  ${fieldName}: ${fieldType};\n`
-  }
-  content += '}\n'
+  let content = renderSharedImports(table, describes, config, destination)
+  content += `// TypeScript ${getTsModelLabel(destination, 'interfaces')} for ${table}\n\n`
+  content += renderTsEnums(enums)
+  content += models.join('\n')
 
   return content
 }
@@ -307,6 +469,7 @@ function generateZodContent({
   if (!content.includes(header)) {
     content += header
   }
+  content += renderSharedImports(table, describes, config, destination)
 
   // Convert table name to snake_case for Zod schemas
   const snakeTable = toSnakeCase(table)
@@ -0,0 +1,436 @@
+/**
+ * SQL DDL generation for a target dialect
+ */
+
+import type { ColumnOrder, Config, Desc, Dialect, EntityModel } from '../types/index.js'
+import {
+  bigIntTypes,
+  booleanTypes,
+  dateTypes,
+  decimalTypes,
+  isJsonType,
+  numberTypes,
+  stringTypes,
+} from '../types/mappings.js'
+import { columnToDesc, descToColumn, getEntityDescribes } from '../database/introspection.js'
+import { getDataType, getOriginTypeMappings, parseColumnType } from './column-type.js'
+
+type ColumnCategory =
+  | 'enum'
+  | 'json'
+  | 'binary'
+  | 'date'
+  | 'bigint'
+  | 'decimal'
+  | 'integer'
+  | 'float'
+  | 'boolean'
+  | 'string'
+
+/**
+ * Types used when the origin type has no equivalent in the target dialect's mappings
+ */
+const fallbackTypes: Record<Dialect, Record<Exclude<ColumnCategory, 'enum'>, string>> = {
+  mysql: {
+    json: 'json',
+    binary: 'longblob',
+    date: 'datetime',
+    bigint: 'bigint',
+    decimal: 'decimal(65,30)',
+    integer: 'int',
+    float: 'double',
+    boolean: 'boolean',
+    string: 'varchar(191)',
+  },
+  postgres: {
+    json: 'json',
+    binary: 'bytea',
+    date: 'timestamp',
+    bigint: 'bigint',
+    decimal: 'decimal(65,30)',
+    integer: 'integer',
+    float: 'double precision',
+    boolean: 'boolean',
+    string: 'text',
+  },
+  sqlite: {
+    json: 'json',
+    binary: 'blob',
+    date: 'datetime',
+    bigint: 'bigint',
+    decimal: 'decimal',
+    integer: 'integer',
+    float: 'real',
+    boolean: 'boolean',
+    string: 'text',
+  },
+}
+
+/**
+ * Target type lists of each category, from the origin type mappings
+ */
+const targetTypes: Partial<Record<ColumnCategory, Record<Dialect, string[]>>> = {
+  json: stringTypes,
+  date: dateTypes,
+  bigint: bigIntTypes,
+  decimal: decimalTypes,
+  integer: numberTypes,
+  float: numberTypes,
+  boolean: booleanTypes,
+  string: stringTypes,
+}
+
+/**
+ * Wider Postgres types keeping the range of unsigned integers, keyed by the unsigned type
+ */
+const unsignedPgTypes: Record<string, string> = {
+  tinyint: 'smallint',
+  smallint: 'integer',
+  mediumint: 'integer',
+  int: 'bigint',
+  integer: 'bigint',
+  bigint: 'numeric(20,0)',
+}
+
+interface DdlBuilder {
+  config: Config
+  /** Dialect of the origin, when it is a SQL database or file */
+  originDialect?: Dialect
+  dialect: Dialect
+  columnOrder: ColumnOrder
+  /** Postgres enum types keyed by name */
+  pgEnums: Map<string, string[]>
+  /** ALTER TABLE statements adding foreign keys once every table exists */
+  foreignKeys: string[]
+  /** Tables keyed by name, to look up the database names of referenced tables */
+  tables: Map<string, EntityModel>
+}
+
+function quoteIdentifier(name: string, dialect: Dialect): string {
+  return dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`
+}
+
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * Get the database names of a table and of its columns, which Prisma can map to other names
+ */
+function getDbNames(entity: EntityModel): { table: string; column: (name: string) => string } {
+  const columns = new Map(
+    entity.columns.map((column) => [column.name, column.dbName ?? column.name]),
+  )
+  return {
+    table: entity.dbName ?? entity.name,
+    column: (name) => columns.get(name) ?? name,
+  }
+}
+
+/**
+ * Get the integer type an unsigned column was declared with, from `int unsigned` or Prisma's
+ * `@db.UnsignedInt`
+ */
+function getUnsignedType(desc: Desc): string | undefined {
+  const native = desc.NativeType?.match(/^Unsigned(\w+)$/)
+  if (native) return native[1].toLowerCase()
+  const { base, attributes } = parseColumnType(desc.Type)
+  return attributes.includes('unsigned') ? base : undefined
+}
+
+/**
+ * Classify a column with the origin type mappings
+ */
+function getColumnCategory(desc: Desc, config: Config): ColumnCategory {
+  const dataType = getDataType(desc, config)
+  const typeMappings = getOriginTypeMappings(config)
+
+  if (descToColumn(desc).enumValues?.length) return 'enum'
+  if (isJsonType(dataType)) return 'json'
+  if (/^(?:bytes|bytea|binary|varbinary|(?:tiny|medium|long)?blob)$/i.test(dataType)) return 'binary'
+  if (typeMappings.dateTypes.includes(dataType)) return 'date'
+  if (typeMappings.bigIntTypes.includes(dataType)) return 'bigint'
+  if (typeMappings.decimalTypes.includes(dataType)) return 'decimal'
+  if (typeMappings.numberTypes.includes(dataType)) {
+    return /float|double|real/i.test(dataType) ? 'float' : 'integer'
+  }
+  if (typeMappings.booleanTypes.includes(dataType)) return 'boolean'
+  return 'string'
+}
+
+/**
+ * Render the column type in the target dialect: the origin type when the target mappings know
+ * it in the same category, otherwise the category's fallback type
+ */
+function getTargetType(
+  desc: Desc,
+  category: ColumnCategory,
+  entity: EntityModel,
+  builder: DdlBuilder,
+): string {
+  const { dialect } = builder
+
+  if (category === 'enum') {
+    const { enumValues = [], enumName } = descToColumn(desc)
+    if (dialect === 'mysql') {
+      return `enum(${enumValues.map(quoteString).join(',')})`
+    }
+    if (dialect === 'postgres') {
+      const typeName = enumName || `${entity.dbName ?? entity.name}_${desc.DbName ?? desc.Field}`
+      builder.pgEnums.set(typeName, enumValues)
+      return quoteIdentifier(typeName, dialect)
+    }
+    // SQLite has no enums; a CHECK constraint keeps the values
+    return 'text'
+  }
+
+  // Types are kept as they are within the same dialect
+  if (builder.originDialect === dialect && !/^user-defined$/i.test(desc.Type)) {
+    return desc.Type.toLowerCase()
+  }
+
+  // Prisma native types like @db.VarChar(191) keep the length of the database type
+  const { base, params } = parseColumnType(desc.NativeType ?? desc.Type)
+  if (targetTypes[category]?.[dialect].includes(base)) {
+    return params.length > 0 ? `${base}(${params.join(',')})` : base
+  }
+  return fallbackTypes[dialect][category]
+}
+
+/**
+ * Render the DEFAULT clause of a column, or an empty string
+ */
+function formatDefault(desc: Desc, category: ColumnCategory, dialect: Dialect): string {
+  const value = desc.Default
+  const extra = desc.Extra.toLowerCase()
+
+  if (value === null) {
+    // Prisma reports now() as a generated default without a value, and @updatedAt as a
+    // generated default on update, which is set by Prisma Client and has no database default
+    const isNow = extra.includes('default_generated') && !extra.includes('on update')
+    return category === 'date' && isNow ? ' DEFAULT CURRENT_TIMESTAMP' : ''
+  }
+  if (value.startsWith('nextval(')) return ''
+  if (/^(?:current_timestamp(?:\(\d*\))?|now\(\))$/i.test(value)) {
+    return ' DEFAULT CURRENT_TIMESTAMP'
+  }
+
+  // Postgres reports literals with a cast: 'user'::character varying
+  const castMatch = value.match(/^'((?:[^']|'')*)'::[\w\s."]+(?:\[\])?$/)
+  const literal = castMatch ? castMatch[1].replace(/''/g, "'") : value
+  if (!castMatch && /\(/.test(value)) {
+    return ` DEFAULT (${value})`
+  }
+
+  if (category === 'boolean') {
+    const isTrue = ['true', '1', "b'1'", 't'].includes(literal.toLowerCase())
+    // MySQL booleans are tinyint(1), and report their defaults as numbers
+    if (dialect === 'mysql') return isTrue ? ' DEFAULT 1' : ' DEFAULT 0'
+    return isTrue ? ' DEFAULT TRUE' : ' DEFAULT FALSE'
+  }
+  if (['bigint', 'decimal', 'integer', 'float'].includes(category) && /^-?\d+(?:\.\d+)?$/.test(literal)) {
+    return ` DEFAULT ${literal}`
+  }
+  return ` DEFAULT ${quoteString(literal)}`
+}
+
+/**
+ * Prisma reports comments with their `///` or `//` marker
+ */
+function getComment(comment: string, config: Config): string {
+  return config.origin.type === 'prisma' ? comment.replace(/^\/\/\/?\s*/, '') : comment
+}
+
+/**
+ * MySQL only indexes text and blob columns with a prefix length, which the model does not keep
+ */
+function needsPrefixLength(columns: string[], types: Map<string, string>, dialect: Dialect): boolean {
+  return (
+    dialect === 'mysql' &&
+    columns.some((column) => /(?:text|blob)$|^json$/.test(types.get(column) ?? ''))
+  )
+}
+
+function renderUnsupported(statement: string): string {
+  return `-- unsupported: ${statement} (text and blob keys need a prefix length)\n`
+}
+
+function renderTable(entity: EntityModel, builder: DdlBuilder): string {
+  const { dialect, config } = builder
+  const describes = getEntityDescribes(entity, builder.columnOrder)
+  // Key columns keep the origin order, which is part of the key
+  const primaryKey = entity.columns.map(columnToDesc).filter((desc) => desc.Key === 'PRI')
+  const dbNames = getDbNames(entity)
+  const tableName = quoteIdentifier(dbNames.table, dialect)
+  const quoteColumns = (columns: string[], names = dbNames) =>
+    columns.map((column) => quoteIdentifier(names.column(column), dialect)).join(', ')
+
+  const lines: string[] = []
+  // SQLite comments follow the definition they belong to, where the sql origin reads them
+  const lineComments = new Map<number, string>()
+  const comments: string[] = []
+  const types = new Map<string, string>()
+  for (const desc of describes) {
+    const category = getColumnCategory(desc, config)
+    const columnName = quoteIdentifier(dbNames.column(desc.Field), dialect)
+    const isAutoIncrement =
+      desc.Extra.toLowerCase().includes('auto_increment') ||
+      (desc.Default?.startsWith('nextval(') ?? false) ||
+      /serial\d?$/.test(parseColumnType(desc.Type).base)
+    const isPrimaryKey = primaryKey.length === 1 && desc.Key === 'PRI'
+
+    let type = getTargetType(desc, category, entity, builder)
+    const unsignedType = ['integer', 'bigint'].includes(category) && getUnsignedType(desc)
+    if (unsignedType && dialect === 'postgres') {
+      // Postgres has no unsigned integers, so the next wider type keeps the range
+      type = unsignedPgTypes[unsignedType] ?? type
+    } else if (unsignedType && dialect === 'mysql' && !type.includes('unsigned')) {
+      type = `${targetTypes[category]?.mysql.includes(unsignedType) ? unsignedType : type} unsigned`
+    }
+    if (isAutoIncrement && dialect === 'postgres') {
+      type = category === 'bigint' || /^(?:bigint|numeric)/.test(type) ? 'bigserial' : 'serial'
+    } else if (isAutoIncrement && dialect === 'sqlite' && isPrimaryKey) {
+      // Only INTEGER PRIMARY KEY columns can autoincrement in SQLite
+      type = 'integer'
+    }
+    types.set(desc.Field, type)
+
+    let line = `${columnName} ${type}`
+    if (desc.Null === 'NO') line += ' NOT NULL'
+    if (isPrimaryKey) line += ' PRIMARY KEY'
+    if (isAutoIncrement && dialect === 'mysql') line += ' AUTO_INCREMENT'
+    if (isAutoIncrement && dialect === 'sqlite' && isPrimaryKey) line += ' AUTOINCREMENT'
+    if (!isAutoIncrement) line += formatDefault(desc, category, dialect)
+    if (desc.Extra.toLowerCase().includes('on update')) {
+      if (dialect === 'mysql') {
+        line += ' ON UPDATE CURRENT_TIMESTAMP'
+      } else {
+        lines.push(`-- unsupported: ${columnName} ON UPDATE CURRENT_TIMESTAMP (needs a trigger)`)
+      }
+    }
+    if (category === 'enum' && dialect === 'sqlite') {
+      const values = descToColumn(desc).enumValues ?? []
+      line += ` CHECK (${columnName} IN (${values.map(quoteString).join(', ')}))`
+    }
+
+    const comment = getComment(desc.Comment, config)
+    if (comment) {
+      if (dialect === 'mysql') {
+        line += ` COMMENT ${quoteString(comment)}`
+      } else if (dialect === 'postgres') {
+        comments.push(
+          `COMMENT ON COLUMN ${tableName}.${columnName} IS ${quoteString(comment)};\n`,
+        )
+      } else {
+        // SQLite does not store comments
+        lineComments.set(lines.length, comment.replace(/\n/g, ' '))
+      }
+    }
+    lines.push(line)
+  }
+
+  if (primaryKey.length > 1) {
+    lines.push(`PRIMARY KEY (${quoteColumns(primaryKey.map((desc) => desc.Field))})`)
+  }
+
+  const unsupported: string[] = []
+  for (const columns of entity.uniqueKeys) {
+    const key = `UNIQUE (${quoteColumns(columns)})`
+    if (needsPrefixLength(columns, types, dialect)) {
+      unsupported.push(renderUnsupported(`ALTER TABLE ${tableName} ADD ${key}`))
+    } else {
+      lines.push(key)
+    }
+  }
+
+  for (const foreignKey of entity.foreignKeys) {
+    const referenced = builder.tables.get(foreignKey.referencedTable)
+    const referencedNames = referenced
+      ? getDbNames(referenced)
+      : { table: foreignKey.referencedTable, column: (name: string) => name }
+    const constraint = foreignKey.name
+      ? `CONSTRAINT ${quoteIdentifier(foreignKey.name, dialect)} `
+      : ''
+    const key =
+      `${constraint}FOREIGN KEY (${quoteColumns(foreignKey.columns)}) ` +
+      `REFERENCES ${quoteIdentifier(referencedNames.table, dialect)} ` +
+      `(${quoteColumns(foreignKey.referencedColumns, referencedNames)})`
+    // SQLite checks references when rows are written, so tables can reference later ones
+    if (dialect === 'sqlite') {
+      lines.push(key)
+    } else {
+      builder.foreignKeys.push(`ALTER TABLE ${tableName} ADD ${key};\n`)
+    }
+  }
+
+  const indexes = entity.indexes.map(({ name, columns }) => {
+    const indexName = quoteIdentifier(
+      name ?? `${dbNames.table}_${columns.map(dbNames.column).join('_')}_idx`,
+      dialect,
+    )
+    const statement = `CREATE INDEX ${indexName} ON ${tableName} (${quoteColumns(columns)})`
+    return needsPrefixLength(columns, types, dialect)
+      ? renderUnsupported(statement)
+      : `${statement};\n`
+  })
+
+  // Separate definitions with commas, leaving comment lines alone
+  const body = lines
+    .map((line, index) => {
+      if (line.startsWith('--')) return `  ${line}`
+      const separator = index === lines.length - 1 ? '' : ','
+      const comment = lineComments.get(index)
+      return `  ${line}${separator}${comment ? ` -- ${comment}` : ''}`
+    })
+    .join('\n')
+
+  const tableComment = getComment(entity.comment, config)
+  let statement = ''
+  if (tableComment && dialect === 'sqlite') {
+    statement += `-- ${tableComment.replace(/\n/g, ' ')}\n`
+  }
+  statement += `CREATE TABLE ${tableName} (\n${body}\n)`
+  if (tableComment && dialect === 'mysql') {
+    statement += ` COMMENT=${quoteString(tableComment)}`
+  }
+  statement += ';\n'
+  if (tableComment && dialect === 'postgres') {
+    statement += `COMMENT ON TABLE ${tableName} IS ${quoteString(tableComment)};\n`
+  }
+  return statement + comments.join('') + unsupported.join('') + indexes.join('')
+}
+
+/**
+ * Generate CREATE TABLE statements for every table in the target dialect, with their keys and
+ * indexes, keeping column and table comments so magic comments survive a round trip through the
+ * SQL file origin
+ */
+export function generateDdlContent(
+  entities: EntityModel[],
+  config: Config,
+  dialect: Dialect,
+  originDialect?: Dialect,
+  columnOrder: ColumnOrder = 'ordinal',
+): string {
+  const builder: DdlBuilder = {
+    config,
+    originDialect: config.origin.type === 'prisma' ? undefined : originDialect,
+    dialect,
+    columnOrder,
+    pgEnums: new Map(),
+    foreignKeys: [],
+    tables: new Map(entities.map((entity) => [entity.name, entity])),
+  }
+
+  const statements = entities
+    .filter((entity) => entity.kind === 'table')
+    .map((entity) => renderTable(entity, builder))
+
+  const enums = [...builder.pgEnums].map(
+    ([name, values]) =>
+      `CREATE TYPE ${quoteIdentifier(name, dialect)} AS ENUM (${values.map(quoteString).join(', ')});\n`,
+  )
+
+  const foreignKeys = builder.foreignKeys.length > 0 ? [builder.foreignKeys.join('')] : []
+  return [...enums, ...statements, ...foreignKeys].join('\n')
+}
@@ -0,0 +1,387 @@
+/**
+ * Drizzle ORM schema generation
+ */
+
+import camelCase from 'camelcase'
+import type { ColumnOrder, Config, Desc, Dialect, EntityModel } from '../types/index.js'
+import { descToColumn, getEntityDescribes } from '../database/introspection.js'
+import { applyInflection } from '../utils/inflection.js'
+import { getDataType, getOriginDialect, parseColumnType } from './column-type.js'
+
+interface DrizzleDialect {
+  module: string
+  table: string
+  view: string
+}
+
+const drizzleDialects: Record<Dialect, DrizzleDialect> = {
+  mysql: { module: 'drizzle-orm/mysql-core', table: 'mysqlTable', view: 'mysqlView' },
+  postgres: { module: 'drizzle-orm/pg-core', table: 'pgTable', view: 'pgView' },
+  sqlite: { module: 'drizzle-orm/sqlite-core', table: 'sqliteTable', view: 'sqliteView' },
+}
+
+interface DrizzleSchemaBuilder {
+  config: Config
+  dialect: Dialect
+  /** Builders imported from the dialect module */
+  imports: Set<string>
+  /** The `sql` template tag is used by a default */
+  usesSql: boolean
+  /** pgEnum declarations keyed by variable name */
+  pgEnums: Map<string, string>
+}
+
+/**
+ * A column builder call and how its defaults are written
+ */
+interface ColumnBuilder {
+  call: string
+  kind: 'number' | 'bigint' | 'boolean' | 'date' | 'string' | 'json' | 'serial'
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key)
+}
+
+/**
+ * Render the precision and scale options of decimal builders
+ */
+function formatPrecision([precision, scale]: string[]): string {
+  const options = [
+    precision ? `precision: ${precision}` : '',
+    scale ? `scale: ${scale}` : '',
+  ].filter(Boolean)
+  return options.length > 0 ? `, { ${options.join(', ')} }` : ''
+}
+
+function getMySqlBuilder(desc: Desc, name: string, builder: DrizzleSchemaBuilder): ColumnBuilder {
+  const { base, params, attributes } = parseColumnType(desc.Type)
+  const length = params[0] ? `, { length: ${params[0]} }` : ''
+  const unsigned = attributes.includes('unsigned')
+  const use = (fn: string, args = '', kind: ColumnBuilder['kind'] = 'string'): ColumnBuilder => {
+    builder.imports.add(fn)
+    return { call: `${fn}(${quote(name)}${args})`, kind }
+  }
+
+  if (getDataType(desc, builder.config) === 'boolean' || base === 'bool') {
+    return use('boolean', '', 'boolean')
+  }
+
+  switch (base) {
+    case 'tinyint':
+    case 'smallint':
+    case 'mediumint':
+    case 'int':
+    case 'integer':
+      return use(base === 'integer' ? 'int' : base, unsigned ? ', { unsigned: true }' : '', 'number')
+    case 'bigint':
+      return use('bigint', `, { mode: 'bigint'${unsigned ? ', unsigned: true' : ''} }`, 'bigint')
+    case 'float':
+      return use('float', '', 'number')
+    case 'double':
+    case 'double precision':
+    case 'real':
+      return use('double', '', 'number')
+    case 'decimal':
+    case 'numeric':
+    case 'dec':
+      return use('decimal', formatPrecision(params))
+    case 'varchar':
+    case 'char':
+    case 'binary':
+    case 'varbinary':
+      return use(base, length)
+    case 'tinytext':
+    case 'text':
+    case 'mediumtext':
+    case 'longtext':
+    case 'time':
+    case 'year':
+      return use(base, '', base === 'year' ? 'number' : 'string')
+    case 'date':
+      return use('date', '', 'date')
+    case 'datetime':
+    case 'timestamp':
+      return use(base, params[0] ? `, { fsp: ${params[0]} }` : '', 'date')
+    case 'json':
+      return use('json', '', 'json')
+    case 'enum': {
+      const values = descToColumn(desc).enumValues ?? []
+      return use('mysqlEnum', `, [${values.map(quote).join(', ')}]`)
+    }
+    default:
+      // Types without a Drizzle builder are read as text
+      return use('text')
+  }
+}
+
+function getPgBuilder(
+  desc: Desc,
+  name: string,
+  entityName: string,
+  builder: DrizzleSchemaBuilder,
+): ColumnBuilder {
+  const { base, params, attributes } = parseColumnType(desc.Type)
+  const use = (fn: string, args = '', kind: ColumnBuilder['kind'] = 'string'): ColumnBuilder => {
+    builder.imports.add(fn)
+    return { call: `${fn}(${quote(name)}${args})`, kind }
+  }
+
+  const { enumValues, enumName } = descToColumn(desc)
+  if (enumValues && enumValues.length > 0) {
+    const typeName = enumName || `${entityName}_${desc.Field}`
+    const variable = `${camelCase(typeName)}Enum`
+    builder.imports.add('pgEnum')
+    builder.pgEnums.set(
+      variable,
+      `export const ${variable} = pgEnum(${quote(typeName)}, [${enumValues.map(quote).join(', ')}])\n`,
+    )
+    return { call: `${variable}(${quote(name)})`, kind: 'string' }
+  }
+
+  // Integer columns backed by a sequence are serial columns
+  const isSequence = desc.Default?.startsWith('nextval(') ?? false
+
+  switch (base) {
+    case 'smallint':
+    case 'int2':
+      return isSequence ? use('smallserial', '', 'serial') : use('smallint', '', 'number')
+    case 'integer':
+    case 'int':
+    case 'int4':
+      return isSequence ? use('serial', '', 'serial') : use('integer', '', 'number')
+    case 'bigint':
+    case 'int8':
+      return isSequence
+        ? use('bigserial', ", { mode: 'bigint' }", 'serial')
+        : use('bigint', ", { mode: 'bigint' }", 'bigint')
+    case 'smallserial':
+    case 'serial2':
+      return use('smallserial', '', 'serial')
+    case 'serial':
+    case 'serial4':
+      return use('serial', '', 'serial')
+    case 'bigserial':
+    case 'serial8':
+      return use('bigserial', ", { mode: 'bigint' }", 'serial')
+    case 'real':
+    case 'float4':
+      return use('real', '', 'number')
+    case 'double precision':
+    case 'double':
+    case 'float8':
+      return use('doublePrecision', '', 'number')
+    case 'numeric':
+    case 'decimal':
+      return use('numeric', formatPrecision(params))
+    case 'character varying':
+    case 'varchar':
+      return use('varchar', params[0] ? `, { length: ${params[0]} }` : '')
+    case 'character':
+    case 'char':
+    case 'bpchar':
+      return use('char', params[0] ? `, { length: ${params[0]} }` : '')
+    case 'boolean':
+    case 'bool':
+      return use('boolean', '', 'boolean')
+    case 'timestamp':
+    case 'timestamptz': {
+      const withTimezone = base === 'timestamptz' || attributes.startsWith('with time zone')
+      return use('timestamp', withTimezone ? ', { withTimezone: true }' : '', 'date')
+    }
+    case 'date':
+      return use('date', '', 'date')
+    case 'time':
+    case 'timetz':
+      return use(
+        'time',
+        base === 'timetz' || attributes.startsWith('with time zone') ? ', { withTimezone: true }' : '',
+      )
+    case 'interval':
+    case 'uuid':
+    case 'inet':
+    case 'cidr':
+    case 'macaddr':
+    case 'text':
+      return use(base)
+    case 'json':
+    case 'jsonb':
+      return use(base, '', 'json')
+    default:
+      // Types without a Drizzle builder are read as text
+      return use('text')
+  }
+}
+
+function getSqliteBuilder(desc: Desc, name: string, builder: DrizzleSchemaBuilder): ColumnBuilder {
+  const { base } = parseColumnType(desc.Type)
+  const use = (fn: string, args = '', kind: ColumnBuilder['kind'] = 'string'): ColumnBuilder => {
+    builder.imports.add(fn)
+    return { call: `${fn}(${quote(name)}${args})`, kind }
+  }
+
+  if (base === 'boolean' || base === 'bool') {
+    return use('integer', ", { mode: 'boolean' }", 'boolean')
+  }
+  // SQLite type affinity rules
+  if (base.includes('int')) return use('integer', '', 'number')
+  if (/char|clob|text|date|time/.test(base)) return use('text')
+  if (base === '' || base.includes('blob')) return use('blob')
+  if (/real|floa|doub/.test(base)) return use('real', '', 'number')
+  return use('numeric')
+}
+
+/**
+ * Render the `.default()` modifier of a column, or an empty string
+ */
+function formatDefault(desc: Desc, column: ColumnBuilder, builder: DrizzleSchemaBuilder): string {
+  const value = desc.Default
+  if (value === null || column.kind === 'serial') return ''
+
+  if (/^(?:current_timestamp(?:\(\d*\))?|now\(\))$/i.test(value)) {
+    if (column.kind === 'date' && builder.dialect !== 'sqlite') return '.defaultNow()'
+    builder.usesSql = true
+    return `.default(sql\`(CURRENT_TIMESTAMP)\`)`
+  }
+
+  // Postgres reports literals with a cast: 'user'::character varying
+  const castMatch = value.match(/^'((?:[^']|'')*)'::[\w\s."]+(?:\[\])?$/)
+  const literal = castMatch ? castMatch[1].replace(/''/g, "'") : value
+  const isExpression =
+    !castMatch && (/\(/.test(value) || desc.Extra.toLowerCase().includes('default_generated'))
+
+  if (isExpression || column.kind === 'json') {
+    builder.usesSql = true
+    return `.default(sql\`${value.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${')}\`)`
+  }
+
+  switch (column.kind) {
+    case 'boolean':
+      return `.default(${['true', '1', "b'1'", 't'].includes(literal.toLowerCase())})`
+    case 'number':
+      return /^-?\d+(?:\.\d+)?$/.test(literal) ? `.default(${literal})` : `.default(${quote(literal)})`
+    case 'bigint':
+      return /^-?\d+$/.test(literal) ? `.default(${literal}n)` : ''
+    case 'date':
+      // Date builders take Date objects, so date literals stay SQL
+      builder.usesSql = true
+      return `.default(sql\`'${literal.replace(/'/g, "''").replace(/[`\\]/g, '\\$&')}'\`)`
+    default:
+      return `.default(${quote(literal)})`
+  }
+}
+
+function renderColumns(
+  entity: EntityModel,
+  describes: Desc[],
+  isCompositeKey: boolean,
+  builder: DrizzleSchemaBuilder,
+): string {
+  let columns = ''
+
+  for (const desc of describes) {
+    const key = builder.config.camelCase ? camelCase(desc.Field) : desc.Field
+    const column =
+      builder.dialect === 'mysql'
+        ? getMySqlBuilder(desc, desc.Field, builder)
+        : builder.dialect === 'postgres'
+          ? getPgBuilder(desc, desc.Field, entity.name, builder)
+          : getSqliteBuilder(desc, desc.Field, builder)
+
+    const isPrimaryKey = entity.kind === 'table' && !isCompositeKey && desc.Key === 'PRI'
+    const extra = desc.Extra.toLowerCase()
+
+    let call = column.call
+    // Primary keys and serial columns are not null already
+    if (desc.Null === 'NO' && !isPrimaryKey && column.kind !== 'serial') {
+      call += '.notNull()'
+    }
+    if (builder.dialect === 'mysql' && extra.includes('auto_increment')) {
+      call += '.autoincrement()'
+    }
+    if (isPrimaryKey) {
+      call += '.primaryKey()'
+    }
+    call += formatDefault(desc, column, builder)
+    if (builder.dialect === 'mysql' && column.kind === 'date' && extra.includes('on update')) {
+      call += '.onUpdateNow()'
+    }
+
+    columns += `  ${formatKey(key)}: ${call},\n`
+  }
+
+  return columns
+}
+
+/**
+ * Generate a Drizzle ORM schema module with a table definition for every table, existing
+ * view definitions for views, and the select and insert types they infer
+ */
+export function generateDrizzleContent(
+  entities: EntityModel[],
+  config: Config,
+  isCamelCase: boolean,
+  columnOrder: ColumnOrder = 'ordinal',
+): string {
+  const dialect = getOriginDialect(config, 'drizzle')
+  const { module, table: tableFn, view: viewFn } = drizzleDialects[dialect]
+  const builder: DrizzleSchemaBuilder = {
+    config: { ...config, camelCase: isCamelCase },
+    dialect,
+    imports: new Set(),
+    usesSql: false,
+    pgEnums: new Map(),
+  }
+
+  let definitions = ''
+  for (const entity of entities) {
+    const describes = getEntityDescribes(entity, columnOrder)
+    const variable = camelCase(entity.name)
+    const pascalEntity = camelCase(applyInflection(entity.name, config.inflection), {
+      pascalCase: true,
+    })
+
+    if (entity.kind === 'view') {
+      builder.imports.add(viewFn)
+      const columns = renderColumns(entity, describes, false, builder)
+      definitions += `export const ${variable} = ${viewFn}(${quote(entity.name)}, {\n${columns}}).existing()\n\n`
+      definitions += `export type ${pascalEntity}View = typeof ${variable}.$inferSelect\n\n`
+      continue
+    }
+
+    builder.imports.add(tableFn)
+    const primaryKey = describes.filter((desc) => desc.Key === 'PRI')
+    const isCompositeKey = primaryKey.length > 1
+    const columns = renderColumns(entity, describes, isCompositeKey, builder)
+
+    let extraConfig = ''
+    if (isCompositeKey) {
+      builder.imports.add('primaryKey')
+      const keyColumns = primaryKey.map((desc) => {
+        const key = isCamelCase ? camelCase(desc.Field) : desc.Field
+        return /^[A-Za-z_$][\w$]*$/.test(key) ? `table.${key}` : `table[${quote(key)}]`
+      })
+      extraConfig = `, (table) => [primaryKey({ columns: [${keyColumns.join(', ')}] })]`
+    }
+
+    definitions += `export const ${variable} = ${tableFn}(${quote(entity.name)}, {\n${columns}}${extraConfig})\n\n`
+    definitions += `export type ${pascalEntity} = typeof ${variable}.$inferSelect\n`
+    definitions += `export type Insertable${pascalEntity} = typeof ${variable}.$inferInsert\n\n`
+  }
+
+  let content = ''
+  if (builder.usesSql) {
+    content += `import { sql } from 'drizzle-orm'\n`
+  }
+  content += `import { ${[...builder.imports].sort().join(', ')} } from '${module}'\n\n`
+  for (const declaration of builder.pgEnums.values()) {
+    content += declaration
+  }
+  if (builder.pgEnums.size > 0) content += '\n'
+
+  return `${content}${definitions}`.replace(/\n+$/, '\n')
+}
@@ -0,0 +1,78 @@
+/**
+ * Effect Schema generation
+ */
+
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { defaultEffectHeader } from '../constants.js'
+import { type ColumnType, resolveColumnType } from './column-type.js'
+import type { SchemaLibrary } from './schema-generator.js'
+
+/**
+ * Render the Effect schema of a column type, without nullability or defaults
+ */
+function getEffectBaseSchema(column: ColumnType, destination: Destination): string {
+  const { useDateType } = destination as { useDateType?: boolean }
+
+  if (column.kind === 'expression') {
+    return column.expression as string
+  }
+  if (column.kind === 'enum') {
+    return `Schema.Literal(${column.enumValues.map((v) => `'${v}'`).join(', ')})`
+  }
+  if (column.kind === 'date') {
+    // Schema.Date decodes date strings, Schema.DateFromSelf only accepts Date instances
+    return useDateType ? 'Schema.Date' : 'Schema.DateFromSelf'
+  }
+  if (column.kind === 'bigint') {
+    return 'Schema.BigInt'
+  }
+  if (column.kind === 'boolean') {
+    return 'Schema.Boolean'
+  }
+  if (column.kind === 'number') {
+    return 'Schema.Number'
+  }
+
+  const schema = column.trim ? 'Schema.Trim' : 'Schema.String'
+  return column.minLength ? `${schema}.pipe(Schema.minLength(1))` : schema
+}
+
+/**
+ * Defaults are decoded values, so dates and bigints are built from their literal
+ */
+function formatDefault(column: ColumnType): string {
+  const value = column.default as string
+  if (column.kind === 'date') return `new Date(${value})`
+  if (column.kind === 'bigint') return `BigInt(${value})`
+  return value
+}
+
+/**
+ * Generate the Effect schema of a database field
+ */
+export function getEffectType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): string {
+  const column = resolveColumnType(op, desc, config, destination, 'effect', entityName)
+
+  let schema = getEffectBaseSchema(column, destination)
+  if (column.nullable) {
+    schema = `Schema.NullOr(${schema})`
+  }
+
+  if (column.default !== null) {
+    return `Schema.optionalWith(${schema}, { default: () => ${formatDefault(column)} })`
+  }
+  return column.optionalKey ? `Schema.optional(${schema})` : schema
+}
+
+export const effectLibrary: SchemaLibrary = {
+  header: defaultEffectHeader,
+  object: (fields) => `Schema.Struct({\n${fields}})`,
+  infer: (schemaName) => `Schema.Schema.Type<typeof ${schemaName}>`,
+  getType: getEffectType,
+}
@@ -0,0 +1,217 @@
+/**
+ * GraphQL SDL generation
+ */
+
+import camelCase from 'camelcase'
+import type { ColumnOrder, Config, Desc, EntityModel } from '../types/index.js'
+import { isJsonType } from '../types/mappings.js'
+import { getEntityDescribes } from '../database/introspection.js'
+import { applyInflection } from '../utils/inflection.js'
+import { extractGraphQLExpression, stripMagicComments } from '../utils/magic-comments.js'
+import {
+  getDataType,
+  getDeclaredEnumName,
+  getEnumValues,
+  getIntegerRange,
+  getOriginTypeMappings,
+  isFloatType,
+} from './column-type.js'
+import { isRequiredOnInsert } from './jsonschema-generator.js'
+import { isAutoGeneratedDateTimeField } from './schema-generator.js'
+
+type GraphQLOperation = 'type' | 'insertable' | 'updateable'
+
+/** Largest value of the signed 32-bit GraphQL Int */
+const graphQLIntMax = 2147483647
+
+/** Custom scalars in declaration order */
+const customScalars = ['BigInt', 'Decimal', 'DateTime', 'JSON']
+
+interface GraphQLSchemaBuilder {
+  config: Config
+  /** Custom scalars referenced by a field */
+  scalars: Set<string>
+  /** Enum values keyed by enum type name */
+  enums: Map<string, string[]>
+}
+
+/**
+ * Turn a value into a valid GraphQL enum value name
+ */
+function toEnumValueName(value: string): string {
+  const name = value.replace(/[^_0-9A-Za-z]/g, '_')
+  return /^[0-9]/.test(name) || ['true', 'false', 'null'].includes(name) ? `_${name}` : name
+}
+
+/**
+ * Render an enum definition, rejecting values that collapse into the same name
+ */
+function renderEnum(name: string, values: string[]): string {
+  const valuesByName = new Map<string, string>()
+  for (const value of values) {
+    const valueName = toEnumValueName(value)
+    const previous = valuesByName.get(valueName)
+    if (previous !== undefined) {
+      throw new Error(
+        `Enum ${name} values '${previous}' and '${value}' both map to the GraphQL name ${valueName}`,
+      )
+    }
+    valuesByName.set(valueName, value)
+  }
+  const body = [...valuesByName.keys()].map((valueName) => `  ${valueName}\n`).join('')
+  return `enum ${name} {\n${body}}\n\n`
+}
+
+/**
+ * Render a GraphQL description as a block string
+ */
+function formatDescription(text: string, indent: string): string {
+  return `${indent}"""${text.replace(/"""/g, '\\"""')}"""\n`
+}
+
+/**
+ * Get the named GraphQL type of a column, without nullability
+ */
+function getNamedType(desc: Desc, pascalEntity: string, builder: GraphQLSchemaBuilder): string {
+  const { config } = builder
+  const dataType = getDataType(desc, config)
+  const typeMappings = getOriginTypeMappings(config)
+
+  const enumValues = getEnumValues(desc, config, dataType)
+  if (enumValues.length > 0) {
+    // Enum types declared by the origin keep their name; inline enums are named after the column
+    const declaredName = getDeclaredEnumName(desc, config)
+    const enumName = declaredName
+      ? camelCase(declaredName, { pascalCase: true })
+      : `${pascalEntity}${camelCase(desc.Field, { pascalCase: true })}`
+    builder.enums.set(enumName, enumValues)
+    return enumName
+  }
+
+  let scalar = 'String'
+  if (isJsonType(dataType)) {
+    scalar = 'JSON'
+  } else if (typeMappings.dateTypes.includes(dataType)) {
+    scalar = 'DateTime'
+  } else if (typeMappings.bigIntTypes.includes(dataType)) {
+    scalar = 'BigInt'
+  } else if (typeMappings.decimalTypes.includes(dataType)) {
+    scalar = 'Decimal'
+  } else if (typeMappings.numberTypes.includes(dataType)) {
+    // Integers outside the signed 32-bit range (e.g. int unsigned) do not fit Int
+    const range = getIntegerRange(desc, config, dataType)
+    const fitsInt = !range?.max || range.max <= graphQLIntMax
+    scalar = isFloatType(dataType) || !fitsInt ? 'Float' : 'Int'
+  } else if (typeMappings.booleanTypes.includes(dataType)) {
+    scalar = 'Boolean'
+  }
+
+  if (customScalars.includes(scalar)) {
+    builder.scalars.add(scalar)
+  }
+  return scalar
+}
+
+/**
+ * Render the fields of a type or input definition
+ */
+function renderFields(
+  op: GraphQLOperation,
+  describes: Desc[],
+  pascalEntity: string,
+  builder: GraphQLSchemaBuilder,
+): string {
+  const { config } = builder
+  let fields = ''
+
+  for (const desc of describes) {
+    // Auto-generated datetime fields are skipped in insertable and updateable inputs
+    if (op !== 'type' && isAutoGeneratedDateTimeField(desc, config.origin.type)) {
+      continue
+    }
+
+    const fieldName = config.camelCase ? camelCase(desc.Field) : desc.Field
+    const description = stripMagicComments(desc.Comment)
+    if (description) {
+      fields += formatDescription(description, '  ')
+    }
+
+    // Magic comments completely override the type, nullability included
+    const magicExpression = config.magicComments ? extractGraphQLExpression(desc.Comment) : null
+    if (magicExpression) {
+      fields += `  ${fieldName}: ${magicExpression}\n`
+      continue
+    }
+
+    const isRequired =
+      op === 'type' ? desc.Null !== 'YES' : op === 'insertable' && isRequiredOnInsert(desc)
+    fields += `  ${fieldName}: ${getNamedType(desc, pascalEntity, builder)}${isRequired ? '!' : ''}\n`
+  }
+
+  return fields
+}
+
+function renderDefinition(keyword: 'type' | 'input', name: string, fields: string, comment = ''): string {
+  // GraphQL does not allow definitions without fields
+  if (!fields) return ''
+  const description = comment ? formatDescription(stripMagicComments(comment), '') : ''
+  return `${description}${keyword} ${name} {\n${fields}}\n\n`
+}
+
+/**
+ * Generate a GraphQL SDL document with object types for every table and view, insertable and
+ * updateable input types for tables, and the enums and custom scalars they use
+ */
+export function generateGraphQLContent(
+  entities: EntityModel[],
+  config: Config,
+  isCamelCase: boolean,
+  columnOrder: ColumnOrder = 'alphabetical',
+): string {
+  const builder: GraphQLSchemaBuilder = {
+    config: { ...config, camelCase: isCamelCase },
+    scalars: new Set(),
+    enums: new Map(),
+  }
+
+  let definitions = ''
+  for (const entity of entities) {
+    const describes = getEntityDescribes(entity, columnOrder)
+    const pascalEntity = camelCase(applyInflection(entity.name, config.inflection), {
+      pascalCase: true,
+    })
+
+    if (entity.kind === 'view') {
+      const fields = renderFields('type', describes, `${pascalEntity}View`, builder)
+      definitions += renderDefinition('type', `${pascalEntity}View`, fields, entity.comment)
+      continue
+    }
+
+    const fields = renderFields('type', describes, pascalEntity, builder)
+    definitions += renderDefinition('type', pascalEntity, fields, entity.comment)
+    definitions += renderDefinition(
+      'input',
+      `Insertable${pascalEntity}`,
+      renderFields('insertable', describes, pascalEntity, builder),
+    )
+    definitions += renderDefinition(
+      'input',
+      `Updateable${pascalEntity}`,
+      renderFields('updateable', describes, pascalEntity, builder),
+    )
+  }
+
+  let content = ''
+  for (const scalar of customScalars) {
+    if (builder.scalars.has(scalar)) {
+      content += `scalar ${scalar}\n`
+    }
+  }
+  if (content) content += '\n'
+
+  for (const [name, values] of builder.enums) {
+    content += renderEnum(name, values)
+  }
+
+  return `${content}${definitions}`.replace(/\n+$/, '\n')
+}
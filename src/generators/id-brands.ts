@@ -0,0 +1,120 @@
+/**
+ * Branded ID types for primary keys and the foreign keys that reference them
+ */
+
+import camelCase from 'camelcase'
+import type { ColumnModel, Config, Destination, EntityModel } from '../types/index.js'
+import { columnToDesc } from '../database/introspection.js'
+import { applyInflection } from '../utils/inflection.js'
+import { getType } from './type-generator.js'
+
+export interface IdBrand {
+  name: string
+  /** Table whose primary key declares the brand */
+  table: string
+  column: ColumnModel
+}
+
+export interface IdBrands {
+  brands: IdBrand[]
+  /** Brand names keyed by table name, then by column name */
+  columnBrands: Map<string, Map<string, string>>
+}
+
+/**
+ * Give every primary key column a brand named `<Table><Column>`, e.g. `UserId`. Foreign key
+ * columns reuse the brand of the column they reference, following chains of foreign keys.
+ */
+export function getIdBrands(tables: EntityModel[], config: Config): IdBrands {
+  const tablesByName = new Map(tables.map((table) => [table.name, table]))
+  const declared = new Map<string, IdBrand>()
+  const resolved = new Map<string, string | undefined>()
+
+  const resolve = (table: EntityModel, columnName: string): string | undefined => {
+    const key = `${table.name}.${columnName}`
+    // Also stops foreign key cycles
+    if (resolved.has(key)) return resolved.get(key)
+    resolved.set(key, undefined)
+
+    let brand: string | undefined
+    for (const foreignKey of table.foreignKeys) {
+      const index = foreignKey.columns.indexOf(columnName)
+      const referencedTable = tablesByName.get(foreignKey.referencedTable)
+      if (index === -1 || !referencedTable) continue
+      brand = resolve(referencedTable, foreignKey.referencedColumns[index])
+      if (brand) break
+    }
+
+    const column = table.columns.find((c) => c.name === columnName)
+    if (!brand && column && table.primaryKey.includes(columnName)) {
+      const pascalTable = camelCase(applyInflection(table.name, config.inflection), {
+        pascalCase: true,
+      })
+      brand = `${pascalTable}${camelCase(columnName, { pascalCase: true })}`
+      declared.set(brand, { name: brand, table: table.name, column })
+    }
+
+    resolved.set(key, brand)
+    return brand
+  }
+
+  const columnBrands = new Map<string, Map<string, string>>()
+  for (const table of tables) {
+    const brands = new Map<string, string>()
+    for (const column of table.columns) {
+      const brand = resolve(table, column.name)
+      if (brand) brands.set(column.name, brand)
+    }
+    if (brands.size > 0) columnBrands.set(table.name, brands)
+  }
+
+  return { brands: [...declared.values()], columnBrands }
+}
+
+/**
+ * Get the type a brand is based on: the type of its primary key column, without nullability,
+ * defaults or input validation
+ */
+function getBrandBaseType(brand: IdBrand, config: Config, destination: Destination): string {
+  const desc = { ...columnToDesc(brand.column), Null: 'NO', Default: null, Extra: '' }
+  return getType('selectable', desc, config, destination, brand.table)
+}
+
+/**
+ * Render TypeScript branded types, as declared in ids.ts and in Kysely's consolidated file
+ */
+export function renderTsIdBrands(brands: IdBrand[], config: Config, destination: Destination): string {
+  return brands
+    .map((brand) => {
+      const baseType = getBrandBaseType(brand, config, destination)
+      return `export type ${brand.name} = ${baseType} & { readonly __brand: '${brand.name}' };\n`
+    })
+    .join('')
+}
+
+/**
+ * Generate the ids module of a destination with `brandedIds`: a branded Zod schema and its
+ * type, or a branded TypeScript type, per brand
+ */
+export function generateIdsContent(
+  brands: IdBrand[],
+  config: Config,
+  destination: Destination,
+  defaultZodHeader: (version: 3 | 4) => string,
+): string {
+  if (destination.type !== 'zod') {
+    return renderTsIdBrands(brands, config, destination)
+  }
+
+  let content = destination.header ? '' : defaultZodHeader(destination.version || 3)
+  content += brands
+    .map((brand) => {
+      const baseType = getBrandBaseType(brand, config, destination)
+      return (
+        `export const ${brand.name} = ${baseType}.brand<'${brand.name}'>()\n` +
+        `export type ${brand.name} = z.infer<typeof ${brand.name}>\n`
+      )
+    })
+    .join('\n')
+  return content
+}
@@ -0,0 +1,80 @@
+/**
+ * Joi schema generation
+ */
+
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { defaultJoiHeader } from '../constants.js'
+import { type ColumnType, resolveColumnType } from './column-type.js'
+import type { SchemaLibrary } from './schema-generator.js'
+
+/**
+ * Render the Joi schema of a column type, without nullability or defaults
+ */
+function getJoiBaseSchema(column: ColumnType): string {
+  if (column.kind === 'expression') {
+    return column.expression as string
+  }
+  if (column.kind === 'enum') {
+    return `Joi.string().valid(${column.enumValues.map((v) => `'${v}'`).join(', ')})`
+  }
+  if (column.kind === 'date') {
+    return 'Joi.date()'
+  }
+  if (column.kind === 'boolean') {
+    return 'Joi.boolean()'
+  }
+  if (column.kind === 'number') {
+    return 'Joi.number()'
+  }
+
+  let schema = 'Joi.string()'
+  if (column.trim) schema += '.trim()'
+  if (column.maxLength !== undefined) schema += `.max(${column.maxLength})`
+  return schema
+}
+
+/**
+ * Generate the Joi schema of a database field
+ */
+export function getJoiType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): string {
+  const column = resolveColumnType(op, desc, config, destination, 'joi', entityName)
+
+  // Joi rejects empty strings and null unless they are allowed
+  const allowed: string[] = []
+  if (['string', 'bigint', 'decimal'].includes(column.kind) && !column.minLength) {
+    allowed.push("''")
+  }
+  if (column.nullable) {
+    allowed.push('null')
+  }
+
+  let schema = getJoiBaseSchema(column)
+  if (allowed.length > 0) {
+    schema += `.allow(${allowed.join(', ')})`
+  }
+
+  if (column.default !== null) {
+    return `${schema}.default(${column.default})`
+  }
+
+  if (column.optionalKey) {
+    return `${schema}.optional()`
+  }
+  // User-supplied expressions are left as they are
+  return column.kind === 'expression' ? schema : `${schema}.required()`
+}
+
+/**
+ * Joi has no type inference, so no types are generated
+ */
+export const joiLibrary: SchemaLibrary = {
+  header: defaultJoiHeader,
+  object: (fields) => `Joi.object({\n${fields}})`,
+  getType: getJoiType,
+}
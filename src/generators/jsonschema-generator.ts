@@ -0,0 +1,135 @@
+/**
+ * JSON Schema (draft 2020-12) document generation
+ */
+
+import camelCase from 'camelcase'
+import type { Config, Desc } from '../types/index.js'
+import { isJsonType } from '../types/mappings.js'
+import { applyInflection } from '../utils/inflection.js'
+import {
+  getDataType,
+  getEnumValues,
+  getMaxLength,
+  getOriginTypeMappings,
+  isFloatType,
+} from './column-type.js'
+import { type GenerateSchemaContentParams, isAutoGeneratedDateTimeField } from './schema-generator.js'
+
+export const jsonSchemaDialect = 'https://json-schema.org/draft/2020-12/schema'
+
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * Generate the JSON Schema of a database field, without key requirements
+ */
+export function getJsonSchemaProperty(desc: Desc, config: Config): JsonSchema {
+  const dataType = getDataType(desc, config)
+  const typeMappings = getOriginTypeMappings(config)
+  const isNull = desc.Null === 'YES'
+  const enumValues = getEnumValues(desc, config, dataType)
+
+  let property: JsonSchema
+  if (enumValues.length > 0) {
+    property = { enum: isNull ? [...enumValues, null] : enumValues }
+  } else if (isJsonType(dataType)) {
+    // JSON columns accept any JSON value
+    property = {}
+  } else {
+    let type = 'string'
+    const constraints: JsonSchema = {}
+    if (typeMappings.dateTypes.includes(dataType)) {
+      constraints.format = 'date-time'
+    } else if (typeMappings.numberTypes.includes(dataType)) {
+      type = isFloatType(dataType) ? 'number' : 'integer'
+    } else if (typeMappings.booleanTypes.includes(dataType)) {
+      type = 'boolean'
+    } else {
+      const maxLength = getMaxLength(desc.Type)
+      if (maxLength !== undefined) {
+        constraints.maxLength = maxLength
+      }
+    }
+    // Bigints and decimals stay strings to avoid precision loss, like the other destinations
+    property = { type: isNull ? [type, 'null'] : type, ...constraints }
+  }
+
+  if (desc.Comment) {
+    property.description = desc.Comment
+  }
+  return property
+}
+
+/**
+ * Check if an insertable document must contain a field: non-nullable columns without defaults
+ */
+export function isRequiredOnInsert(desc: Desc): boolean {
+  const extra = desc.Extra.toLowerCase()
+  const isGenerated = extra.includes('auto_increment') || extra.includes('default_generated')
+  return desc.Null !== 'YES' && desc.Default === null && !isGenerated
+}
+
+/**
+ * Build an object schema for the columns of an entity
+ */
+export function createObjectSchema(
+  { describes, config, isCamelCase }: GenerateSchemaContentParams,
+  isRequired: (desc: Desc) => boolean,
+  skipAutoGeneratedDates = false,
+  getProperty: (desc: Desc, config: Config) => JsonSchema = getJsonSchemaProperty,
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+
+  for (const desc of describes) {
+    if (skipAutoGeneratedDates && isAutoGeneratedDateTimeField(desc, config.origin.type)) {
+      continue
+    }
+
+    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
+    properties[fieldName] = getProperty(desc, config)
+    if (isRequired(desc)) {
+      required.push(fieldName)
+    }
+  }
+
+  return { type: 'object', properties, required, additionalProperties: false }
+}
+
+/**
+ * Generate a JSON Schema document for a table, with selectable, insertable and updateable
+ * shapes in `$defs`. The document itself validates selectable rows.
+ */
+export function generateJsonSchemaContent(params: GenerateSchemaContentParams): string {
+  const { entity, config } = params
+  const pascalTable = camelCase(applyInflection(entity, config.inflection), { pascalCase: true })
+
+  const document = {
+    $schema: jsonSchemaDialect,
+    title: pascalTable,
+    $ref: `#/$defs/Selectable${pascalTable}`,
+    $defs: {
+      [`Selectable${pascalTable}`]: createObjectSchema(params, () => true),
+      // Auto-generated datetime fields are skipped in insertable and updateable shapes
+      [`Insertable${pascalTable}`]: createObjectSchema(params, isRequiredOnInsert, true),
+      [`Updateable${pascalTable}`]: createObjectSchema(params, () => false, true),
+    },
+  }
+
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+/**
+ * Generate a JSON Schema document for a view (read-only)
+ */
+export function generateJsonSchemaViewContent(params: GenerateSchemaContentParams): string {
+  const { entity, config } = params
+  const pascalView = camelCase(applyInflection(entity, config.inflection), { pascalCase: true })
+
+  const document = {
+    $schema: jsonSchemaDialect,
+    title: `${pascalView}View`,
+    ...createObjectSchema(params, () => true),
+  }
+
+  return `${JSON.stringify(document, null, 2)}\n`
+}
@@ -0,0 +1,184 @@
+/**
+ * OpenAPI 3.1 `components.schemas` document generation
+ */
+
+import * as path from 'node:path'
+import camelCase from 'camelcase'
+import type { Config, Desc, Destination, EntityModel } from '../types/index.js'
+import { getColumnOrder, getEntityDescribes } from '../database/introspection.js'
+import { applyInflection } from '../utils/inflection.js'
+import { toYaml } from '../utils/yaml.js'
+import { getDataType, getDeclaredEnumName, getEnumValues } from './column-type.js'
+import {
+  type JsonSchema,
+  createObjectSchema,
+  getJsonSchemaProperty,
+  isRequiredOnInsert,
+} from './jsonschema-generator.js'
+import type { GenerateSchemaContentParams } from './schema-generator.js'
+
+type OpenApiDestination = Extract<Destination, { type: 'openapi' }>
+
+interface EnumComponent {
+  /** Name the component is derived from: the enum type, or the first column using it */
+  baseName: string
+  values: string[]
+  /** Named enum types are always components; inline enums only when shared */
+  named: boolean
+  usages: number
+  componentName?: string
+}
+
+/**
+ * Get the output format of an OpenAPI destination
+ */
+export function getOpenApiFormat(destination: OpenApiDestination): 'yaml' | 'json' {
+  if (destination.format) return destination.format
+  return destination.outFile?.toLowerCase().endsWith('.json') ? 'json' : 'yaml'
+}
+
+/**
+ * Get the file an OpenAPI destination writes into
+ */
+export function getOpenApiOutFile(destination: OpenApiDestination): string {
+  if (destination.outFile) return destination.outFile
+  const extension = getOpenApiFormat(destination) === 'json' ? '.json' : '.yaml'
+  return path.join(destination.folder || '.', `openapi${extension}`)
+}
+
+/**
+ * Key enums by type name when the origin declares one, otherwise by their values
+ */
+function getEnumKey(desc: Desc, config: Config, values: string[]): string {
+  const name = getDeclaredEnumName(desc, config)
+  return name ? `name:${name}` : `values:${JSON.stringify(values)}`
+}
+
+function collectEnums(
+  entities: Array<{ describes: Desc[] }>,
+  config: Config,
+): Map<string, EnumComponent> {
+  const enums = new Map<string, EnumComponent>()
+
+  for (const { describes } of entities) {
+    for (const desc of describes) {
+      const values = getEnumValues(desc, config, getDataType(desc, config))
+      if (values.length === 0) continue
+
+      const key = getEnumKey(desc, config, values)
+      const existing = enums.get(key)
+      if (existing) {
+        existing.usages++
+      } else {
+        const name = getDeclaredEnumName(desc, config)
+        enums.set(key, { baseName: name ?? desc.Field, values, named: !!name, usages: 1 })
+      }
+    }
+  }
+
+  return enums
+}
+
+/**
+ * Generate one OpenAPI 3.1 document whose `components.schemas` cover every table and view.
+ * Tables get a row schema plus Insertable and Updateable variants; enum types and enums
+ * shared by several columns become components referenced with `$ref`.
+ */
+export function generateOpenApiContent(
+  entities: EntityModel[],
+  config: Config,
+  destination: OpenApiDestination,
+  isCamelCase: boolean,
+): string {
+  const entityParams = entities.map((entity) => ({
+    entity,
+    pascalName: camelCase(applyInflection(entity.name, config.inflection), { pascalCase: true }),
+    describes: getEntityDescribes(entity, getColumnOrder(config, destination)),
+  }))
+
+  // Entity schemas keep their names; enum components give way on clashes
+  const usedNames = new Set<string>()
+  for (const { entity, pascalName } of entityParams) {
+    if (entity.kind === 'view') {
+      usedNames.add(`${pascalName}View`)
+    } else {
+      usedNames.add(pascalName)
+      usedNames.add(`Insertable${pascalName}`)
+      usedNames.add(`Updateable${pascalName}`)
+    }
+  }
+
+  const enums = collectEnums(entityParams, config)
+  const schemas: Record<string, JsonSchema> = {}
+  for (const component of enums.values()) {
+    if (!component.named && component.usages < 2) continue
+
+    const baseName = camelCase(component.baseName, { pascalCase: true })
+    let componentName = usedNames.has(baseName) ? `${baseName}Enum` : baseName
+    for (let index = 2; usedNames.has(componentName); index++) {
+      componentName = `${baseName}Enum${index}`
+    }
+    usedNames.add(componentName)
+    component.componentName = componentName
+    schemas[componentName] = { type: 'string', enum: component.values }
+  }
+
+  const getProperty = (desc: Desc, config: Config): JsonSchema => {
+    const values = getEnumValues(desc, config, getDataType(desc, config))
+    if (values.length > 0) {
+      const componentName = enums.get(getEnumKey(desc, config, values))?.componentName
+      if (componentName) {
+        const ref = { $ref: `#/components/schemas/${componentName}` }
+        const property: JsonSchema =
+          desc.Null === 'YES' ? { anyOf: [ref, { type: 'null' }] } : ref
+        if (desc.Comment) {
+          property.description = desc.Comment
+        }
+        return property
+      }
+    }
+    return getJsonSchemaProperty(desc, config)
+  }
+
+  for (const { entity, pascalName, describes } of entityParams) {
+    const params: GenerateSchemaContentParams = {
+      entity: entity.name,
+      describes,
+      config,
+      destination,
+      isCamelCase,
+    }
+    const withComment = (schema: JsonSchema): JsonSchema =>
+      entity.comment ? { description: entity.comment, ...schema } : schema
+
+    if (entity.kind === 'view') {
+      schemas[`${pascalName}View`] = withComment(
+        createObjectSchema(params, () => true, false, getProperty),
+      )
+      continue
+    }
+
+    schemas[pascalName] = withComment(createObjectSchema(params, () => true, false, getProperty))
+    // Auto-generated datetime fields are skipped in insertable and updateable schemas
+    schemas[`Insertable${pascalName}`] = createObjectSchema(
+      params,
+      isRequiredOnInsert,
+      true,
+      getProperty,
+    )
+    schemas[`Updateable${pascalName}`] = createObjectSchema(params, () => false, true, getProperty)
+  }
+
+  const document = {
+    openapi: '3.1.0',
+    info: {
+      title: destination.title ?? 'Database schemas',
+      version: destination.version ?? '1.0.0',
+    },
+    components: { schemas },
+  }
+
+  return getOpenApiFormat(destination) === 'json'
+    ? `${JSON.stringify(document, null, 2)}\n`
+    : toYaml(document)
+}
@@ -0,0 +1,89 @@
+/**
+ * Content generation for plugin destinations
+ */
+
+import * as path from 'node:path'
+import camelCase from 'camelcase'
+import type {
+  Config,
+  DestinationPlugin,
+  EntityModel,
+  PluginContext,
+  PluginDestination,
+  SchemaModel,
+} from '../types/index.js'
+import { columnToDesc } from '../database/introspection.js'
+import { applyInflection } from '../utils/inflection.js'
+import { getType } from './type-generator.js'
+
+/**
+ * Find the plugin registered for a custom destination
+ */
+export function resolvePlugin(destination: PluginDestination, config: Config): DestinationPlugin {
+  const plugin = config.plugins?.find((p) => p.name === destination.plugin)
+  if (!plugin) {
+    throw new Error(
+      `Unknown destination plugin: ${destination.plugin}. Register it in the \`plugins\` option.`,
+    )
+  }
+  if (!plugin.renderEntity && !plugin.renderConsolidated) {
+    throw new Error(`Plugin ${plugin.name} must define renderEntity or renderConsolidated`)
+  }
+  return plugin
+}
+
+/**
+ * Build the context handed to plugin render hooks
+ */
+export function createPluginContext(
+  config: Config,
+  destination: PluginDestination,
+  model: SchemaModel,
+): PluginContext {
+  return {
+    config,
+    destination,
+    model,
+    getType: (op, entity, column, target = 'ts') =>
+      getType(op, columnToDesc(column), config, { type: target }, entity.name),
+    typeName: (entity) =>
+      camelCase(applyInflection(entity.name, config.inflection), { pascalCase: true }),
+    fieldName: (column) => (config.camelCase ? camelCase(column.name) : column.name),
+  }
+}
+
+/**
+ * Render the files of a plugin destination, keyed by file path
+ */
+export function generatePluginFiles(
+  plugin: DestinationPlugin,
+  destination: PluginDestination,
+  entities: EntityModel[],
+  model: SchemaModel,
+  config: Config,
+): Record<string, string> {
+  const results: Record<string, string> = {}
+  const context = createPluginContext(config, destination, model)
+  const header = destination.header ?? plugin.header ?? ''
+  const extension = plugin.extension ?? '.ts'
+  const folder = destination.folder || '.'
+
+  if (plugin.renderEntity) {
+    const suffix = destination.suffix === undefined ? plugin.name : destination.suffix
+
+    for (const entity of entities) {
+      const content = plugin.renderEntity(entity, context)
+      if (content === null) continue
+
+      const fileName = `${entity.name}${suffix ? `.${suffix}` : ''}${extension}`
+      results[path.join(folder, fileName)] = header + content
+    }
+  }
+
+  if (plugin.renderConsolidated) {
+    const outputFile = destination.outFile || path.join(folder, `${plugin.name}${extension}`)
+    results[outputFile] = header + plugin.renderConsolidated(entities, context)
+  }
+
+  return results
+}
@@ -0,0 +1,517 @@
+/**
+ * Prisma schema generation from SQL tables
+ */
+
+import camelCase from 'camelcase'
+import type {
+  ColumnOrder,
+  Config,
+  Desc,
+  Dialect,
+  EntityModel,
+  ForeignKeyModel,
+} from '../types/index.js'
+import { descToColumn, getEntityDescribes } from '../database/introspection.js'
+import { applyInflection } from '../utils/inflection.js'
+import { stripMagicComments } from '../utils/magic-comments.js'
+import { getDataType, getOriginDialect, parseColumnType } from './column-type.js'
+
+const prismaProviders: Record<Dialect, string> = {
+  mysql: 'mysql',
+  postgres: 'postgresql',
+  sqlite: 'sqlite',
+}
+
+interface PrismaSchemaBuilder {
+  config: Config
+  dialect: Dialect
+  isCamelCase: boolean
+  columnOrder: ColumnOrder
+  /** Enum blocks keyed by enum name */
+  enums: Map<string, string>
+  /** Tables written as models, the only ones relation fields can point to */
+  tables: Set<string>
+  /** Names of the relations that need one to be told apart */
+  relationNames: Map<ForeignKeyModel, string>
+}
+
+/**
+ * Prisma type of a column: scalar, native type attribute, and how defaults are written
+ */
+interface PrismaFieldType {
+  scalar: string
+  native?: string
+  /** Name of the enum block, for enum columns */
+  enumName?: string
+}
+
+/**
+ * Get the default `datasource` and `generator` blocks of a schema
+ */
+export function getDefaultPrismaHeader(dialect: Dialect, hasViews: boolean): string {
+  const generator = hasViews
+    ? '  provider        = "prisma-client-js"\n  previewFeatures = ["views"]'
+    : '  provider = "prisma-client-js"'
+  return `datasource db {
+  provider = "${prismaProviders[dialect]}"
+  url      = env("DATABASE_URL")
+}
+
+generator client {
+${generator}
+}
+
+`
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+/**
+ * Turn an enum value into a valid Prisma identifier, mapped back with `@map` when it differs
+ */
+function formatEnumValue(value: string): string {
+  let name = value.replace(/[^_0-9A-Za-z]/g, '_')
+  if (!/^[A-Za-z]/.test(name)) name = `v${name}`
+  return name === value ? name : `${name} @map(${quote(value)})`
+}
+
+function getEnumFieldType(
+  desc: Desc,
+  entity: EntityModel,
+  builder: PrismaSchemaBuilder,
+): PrismaFieldType | null {
+  const { enumValues, enumName } = descToColumn(desc)
+  if (!enumValues || enumValues.length === 0) return null
+
+  const databaseName = enumName || `${entity.name}_${desc.Field}`
+  const name = builder.isCamelCase ? camelCase(databaseName, { pascalCase: true }) : databaseName
+  if (!builder.enums.has(name)) {
+    const values = enumValues.map((value) => `  ${formatEnumValue(value)}\n`).join('')
+    // Only named database enums (Postgres) have a name to map to
+    const map = enumName && name !== enumName ? `\n  @@map(${quote(enumName)})\n` : ''
+    builder.enums.set(name, `enum ${name} {\n${values}${map}}\n`)
+  }
+  return { scalar: name, enumName: name }
+}
+
+function getMySqlFieldType(desc: Desc, builder: PrismaSchemaBuilder): PrismaFieldType {
+  const { base, params, attributes } = parseColumnType(desc.Type)
+  const unsigned = attributes.includes('unsigned') ? 'Unsigned' : ''
+  const size = params.length > 0 ? `(${params.join(', ')})` : ''
+
+  if (getDataType(desc, builder.config) === 'boolean' || base === 'bool' || base === 'boolean') {
+    return { scalar: 'Boolean' }
+  }
+
+  switch (base) {
+    case 'tinyint':
+      return { scalar: 'Int', native: `@db.${unsigned}TinyInt` }
+    case 'smallint':
+      return { scalar: 'Int', native: `@db.${unsigned}SmallInt` }
+    case 'mediumint':
+      return { scalar: 'Int', native: `@db.${unsigned}MediumInt` }
+    case 'int':
+    case 'integer':
+      return { scalar: 'Int', native: unsigned ? '@db.UnsignedInt' : undefined }
+    case 'bigint':
+      return { scalar: 'BigInt', native: unsigned ? '@db.UnsignedBigInt' : undefined }
+    case 'float':
+      return { scalar: 'Float', native: '@db.Float' }
+    case 'double':
+    case 'double precision':
+    case 'real':
+      return { scalar: 'Float' }
+    case 'decimal':
+    case 'numeric':
+    case 'dec':
+      return { scalar: 'Decimal', native: `@db.Decimal${size}` }
+    case 'varchar':
+      return { scalar: 'String', native: `@db.VarChar${size}` }
+    case 'char':
+      return { scalar: 'String', native: `@db.Char${size}` }
+    case 'tinytext':
+      return { scalar: 'String', native: '@db.TinyText' }
+    case 'text':
+      return { scalar: 'String', native: '@db.Text' }
+    case 'mediumtext':
+      return { scalar: 'String', native: '@db.MediumText' }
+    case 'longtext':
+      return { scalar: 'String', native: '@db.LongText' }
+    case 'datetime':
+      return { scalar: 'DateTime', native: `@db.DateTime(${params[0] ?? 0})` }
+    case 'timestamp':
+      return { scalar: 'DateTime', native: `@db.Timestamp(${params[0] ?? 0})` }
+    case 'date':
+      return { scalar: 'DateTime', native: '@db.Date' }
+    case 'time':
+      return { scalar: 'DateTime', native: `@db.Time(${params[0] ?? 0})` }
+    case 'year':
+      return { scalar: 'Int', native: '@db.Year' }
+    case 'json':
+      return { scalar: 'Json' }
+    case 'binary':
+      return { scalar: 'Bytes', native: `@db.Binary${size}` }
+    case 'varbinary':
+      return { scalar: 'Bytes', native: `@db.VarBinary${size}` }
+    case 'tinyblob':
+      return { scalar: 'Bytes', native: '@db.TinyBlob' }
+    case 'blob':
+      return { scalar: 'Bytes', native: '@db.Blob' }
+    case 'mediumblob':
+      return { scalar: 'Bytes', native: '@db.MediumBlob' }
+    case 'longblob':
+      return { scalar: 'Bytes', native: '@db.LongBlob' }
+    default:
+      return { scalar: `Unsupported(${quote(desc.Type)})` }
+  }
+}
+
+function getPgFieldType(desc: Desc): PrismaFieldType {
+  const { base, params, attributes } = parseColumnType(desc.Type)
+  const size = params.length > 0 ? `(${params.join(', ')})` : ''
+  const withTimezone = attributes.startsWith('with time zone')
+
+  switch (base) {
+    case 'smallint':
+    case 'int2':
+    case 'smallserial':
+    case 'serial2':
+      return { scalar: 'Int', native: '@db.SmallInt' }
+    case 'integer':
+    case 'int':
+    case 'int4':
+    case 'serial':
+    case 'serial4':
+      return { scalar: 'Int' }
+    case 'bigint':
+    case 'int8':
+    case 'bigserial':
+    case 'serial8':
+      return { scalar: 'BigInt' }
+    case 'real':
+    case 'float4':
+      return { scalar: 'Float', native: '@db.Real' }
+    case 'double precision':
+    case 'double':
+    case 'float8':
+      return { scalar: 'Float' }
+    case 'numeric':
+    case 'decimal':
+      return { scalar: 'Decimal', native: `@db.Decimal${size}` }
+    case 'character varying':
+    case 'varchar':
+      return { scalar: 'String', native: `@db.VarChar${size}` }
+    case 'character':
+    case 'char':
+    case 'bpchar':
+      return { scalar: 'String', native: `@db.Char${size}` }
+    case 'text':
+      return { scalar: 'String' }
+    case 'uuid':
+      return { scalar: 'String', native: '@db.Uuid' }
+    case 'boolean':
+    case 'bool':
+      return { scalar: 'Boolean' }
+    case 'timestamp':
+      return {
+        scalar: 'DateTime',
+        native: `@db.${withTimezone ? 'Timestamptz' : 'Timestamp'}(${params[0] ?? 6})`,
+      }
+    case 'timestamptz':
+      return { scalar: 'DateTime', native: `@db.Timestamptz(${params[0] ?? 6})` }
+    case 'date':
+      return { scalar: 'DateTime', native: '@db.Date' }
+    case 'time':
+      return { scalar: 'DateTime', native: `@db.${withTimezone ? 'Timetz' : 'Time'}(${params[0] ?? 6})` }
+    case 'timetz':
+      return { scalar: 'DateTime', native: `@db.Timetz(${params[0] ?? 6})` }
+    case 'json':
+      return { scalar: 'Json', native: '@db.Json' }
+    case 'jsonb':
+      return { scalar: 'Json' }
+    case 'bytea':
+      return { scalar: 'Bytes' }
+    default:
+      return { scalar: `Unsupported(${quote(desc.Type)})` }
+  }
+}
+
+function getSqliteFieldType(desc: Desc): PrismaFieldType {
+  const { base } = parseColumnType(desc.Type)
+
+  if (base === 'boolean' || base === 'bool') return { scalar: 'Boolean' }
+  if (base.includes('bigint')) return { scalar: 'BigInt' }
+  if (base.includes('date') || base.includes('time')) return { scalar: 'DateTime' }
+  // SQLite type affinity rules
+  if (base.includes('int')) return { scalar: 'Int' }
+  if (/char|clob|text/.test(base)) return { scalar: 'String' }
+  if (base === '' || base.includes('blob')) return { scalar: 'Bytes' }
+  if (/real|floa|doub/.test(base)) return { scalar: 'Float' }
+  return { scalar: 'Decimal' }
+}
+
+/**
+ * Render the `@default(...)` attribute of a column, or null
+ */
+function formatDefault(desc: Desc, fieldType: PrismaFieldType): string | null {
+  const value = desc.Default
+  const extra = desc.Extra.toLowerCase()
+
+  // Integer columns backed by a sequence or auto increment
+  const isSerial = /serial\d?$/.test(parseColumnType(desc.Type).base)
+  if (extra.includes('auto_increment') || isSerial || value?.startsWith('nextval(')) {
+    return '@default(autoincrement())'
+  }
+  if (value === null) return null
+
+  if (/^(?:current_timestamp(?:\(\d*\))?|now\(\))$/i.test(value)) {
+    return '@default(now())'
+  }
+
+  // Postgres reports literals with a cast: 'user'::character varying
+  const castMatch = value.match(/^'((?:[^']|'')*)'::[\w\s."]+(?:\[\])?$/)
+  const literal = castMatch ? castMatch[1].replace(/''/g, "'") : value
+  if (!castMatch && (/\(/.test(value) || extra.includes('default_generated'))) {
+    return `@default(dbgenerated(${quote(value)}))`
+  }
+
+  if (fieldType.enumName) {
+    return `@default(${formatEnumValue(literal).split(' ')[0]})`
+  }
+  switch (fieldType.scalar) {
+    case 'Boolean':
+      return `@default(${['true', '1', "b'1'", 't'].includes(literal.toLowerCase())})`
+    case 'Int':
+    case 'BigInt':
+    case 'Float':
+    case 'Decimal':
+      return /^-?\d+(?:\.\d+)?$/.test(literal) ? `@default(${literal})` : `@default(dbgenerated(${quote(value)}))`
+    case 'String':
+      return `@default(${quote(literal)})`
+    default:
+      // Dates, JSON and binary literals are left to the database
+      return `@default(dbgenerated(${quote(value)}))`
+  }
+}
+
+/**
+ * Format rows of cells as columns aligned like `prisma format` does
+ */
+function alignRows(rows: string[][]): string[] {
+  const widths: number[] = []
+  for (const row of rows) {
+    row.forEach((cell, index) => {
+      if (index < row.length - 1) widths[index] = Math.max(widths[index] ?? 0, cell.length)
+    })
+  }
+  return rows.map((row) =>
+    row
+      .map((cell, index) => (index < row.length - 1 ? cell.padEnd(widths[index]) : cell))
+      .join(' ')
+      .trimEnd(),
+  )
+}
+
+function getModelName(tableName: string, builder: PrismaSchemaBuilder): string {
+  const inflected = applyInflection(tableName, builder.config.inflection)
+  return builder.isCamelCase ? camelCase(inflected, { pascalCase: true }) : inflected
+}
+
+/**
+ * Name the relations Prisma cannot tell apart: self relations and several foreign keys between
+ * the same two tables. Names follow `prisma db pull`: `posts_author_idTousers`.
+ */
+function getRelationNames(tables: EntityModel[]): Map<ForeignKeyModel, string> {
+  const isModel = (name: string) => tables.some((table) => table.name === name)
+  const pairs = new Map<string, Array<{ table: string; foreignKey: ForeignKeyModel }>>()
+  for (const table of tables) {
+    for (const foreignKey of table.foreignKeys) {
+      if (!isModel(foreignKey.referencedTable)) continue
+      const pair = [table.name, foreignKey.referencedTable].sort().join('\0')
+      pairs.set(pair, [...(pairs.get(pair) ?? []), { table: table.name, foreignKey }])
+    }
+  }
+
+  const names = new Map<ForeignKeyModel, string>()
+  for (const foreignKeys of pairs.values()) {
+    for (const { table, foreignKey } of foreignKeys) {
+      if (foreignKeys.length > 1 || table === foreignKey.referencedTable) {
+        names.set(
+          foreignKey,
+          `${table}_${foreignKey.columns.join('_')}To${foreignKey.referencedTable}`,
+        )
+      }
+    }
+  }
+  return names
+}
+
+/**
+ * Render the `map` argument of a constraint whose name differs from the one Prisma Migrate
+ * would give it, like `Post_authorId_fkey`
+ */
+function formatConstraintMap(
+  entity: EntityModel,
+  columns: string[],
+  suffix: string,
+  name?: string,
+): string[] {
+  const defaultName = `${entity.name}_${columns.join('_')}_${suffix}`
+  return name && name !== defaultName ? [`map: ${quote(name)}`] : []
+}
+
+/**
+ * Get the relation fields of a model, for the foreign keys of the table (`@relation`) and for
+ * the foreign keys referencing it (back relations)
+ */
+function getRelationRows(entity: EntityModel, builder: PrismaSchemaBuilder): string[][] {
+  const toFieldName = (name: string) => (builder.isCamelCase ? camelCase(name) : name)
+  const rows: string[][] = []
+  const seen = new Set<ForeignKeyModel>()
+
+  for (const relation of entity.relations) {
+    if (!builder.tables.has(relation.table)) continue
+    const { foreignKey } = relation
+    // A self relation appears twice: the foreign key side comes first
+    const isForeignKeySide = entity.foreignKeys.includes(foreignKey) && !seen.has(foreignKey)
+    seen.add(foreignKey)
+
+    const relationName = builder.relationNames.get(foreignKey)
+    const type = getModelName(relation.table, builder)
+    const modifier = relation.cardinality === 'many' ? '[]' : relation.nullable ? '?' : ''
+    const args = [
+      ...(relationName ? [quote(relationName)] : []),
+      ...(isForeignKeySide
+        ? [
+            `fields: [${foreignKey.columns.map(toFieldName).join(', ')}]`,
+            `references: [${foreignKey.referencedColumns.map(toFieldName).join(', ')}]`,
+            ...formatConstraintMap(entity, foreignKey.columns, 'fkey', foreignKey.name),
+          ]
+        : []),
+    ]
+    rows.push([
+      toFieldName(relation.name),
+      `${type}${modifier}`,
+      args.length > 0 ? `@relation(${args.join(', ')})` : '',
+    ])
+  }
+  return rows
+}
+
+function renderBlock(entity: EntityModel, builder: PrismaSchemaBuilder): string {
+  const { dialect, isCamelCase, columnOrder } = builder
+  const describes = getEntityDescribes(entity, columnOrder)
+  const primaryKey = describes.filter((desc) => desc.Key === 'PRI')
+  const isTable = entity.kind === 'table'
+
+  const modelName = getModelName(entity.name, builder)
+  const fieldName = (desc: Desc) => (isCamelCase ? camelCase(desc.Field) : desc.Field)
+  const toFieldName = (name: string) => (isCamelCase ? camelCase(name) : name)
+  const uniqueColumns = new Set(
+    entity.uniqueKeys.filter((columns) => columns.length === 1).map(([column]) => column),
+  )
+
+  let block = ''
+  const comment = stripMagicComments(entity.comment)
+  if (comment) block += `/// ${comment}\n`
+  block += `${isTable ? 'model' : 'view'} ${modelName} {\n`
+
+  const rows: Array<{ comment: string; cells: string[] }> = []
+  for (const desc of describes) {
+    const fieldType =
+      getEnumFieldType(desc, entity, builder) ??
+      (dialect === 'mysql'
+        ? getMySqlFieldType(desc, builder)
+        : dialect === 'postgres'
+          ? getPgFieldType(desc)
+          : getSqliteFieldType(desc))
+
+    const isPrimaryKey = isTable && desc.Key === 'PRI'
+    const attributes: string[] = []
+    if (isPrimaryKey && primaryKey.length === 1) attributes.push('@id')
+    const isUnique = desc.Key === 'UNI' || (isTable && uniqueColumns.has(desc.Field))
+    if (isUnique && !(isPrimaryKey && primaryKey.length === 1)) attributes.push('@unique')
+    const defaultValue = formatDefault(desc, fieldType)
+    if (defaultValue) attributes.push(defaultValue)
+    if (desc.Extra.toLowerCase().includes('on update')) attributes.push('@updatedAt')
+    if (fieldName(desc) !== desc.Field) attributes.push(`@map(${quote(desc.Field)})`)
+    if (fieldType.native) attributes.push(fieldType.native)
+
+    const isOptional = desc.Null === 'YES' && !isPrimaryKey
+    rows.push({
+      comment: stripMagicComments(desc.Comment),
+      cells: [fieldName(desc), `${fieldType.scalar}${isOptional ? '?' : ''}`, attributes.join(' ')],
+    })
+  }
+
+  if (isTable) {
+    for (const cells of getRelationRows(entity, builder)) rows.push({ comment: '', cells })
+  }
+
+  const lines = alignRows(rows.map((row) => row.cells))
+  rows.forEach((row, index) => {
+    if (row.comment) block += `  /// ${row.comment}\n`
+    block += `  ${lines[index]}\n`
+  })
+
+  const blockAttributes: string[] = []
+  if (isTable && primaryKey.length > 1) {
+    blockAttributes.push(`@@id([${primaryKey.map(fieldName).join(', ')}])`)
+  }
+  if (isTable) {
+    for (const columns of entity.uniqueKeys.filter((columns) => columns.length > 1)) {
+      blockAttributes.push(`@@unique([${columns.map(toFieldName).join(', ')}])`)
+    }
+    for (const { name, columns } of entity.indexes) {
+      const args = [
+        `[${columns.map(toFieldName).join(', ')}]`,
+        ...formatConstraintMap(entity, columns, 'idx', name),
+      ]
+      blockAttributes.push(`@@index(${args.join(', ')})`)
+    }
+  }
+  if (modelName !== entity.name) {
+    blockAttributes.push(`@@map(${quote(entity.name)})`)
+  }
+  if (blockAttributes.length > 0) {
+    block += `\n${blockAttributes.map((attribute) => `  ${attribute}\n`).join('')}`
+  }
+
+  return `${block}}\n`
+}
+
+/**
+ * Generate a Prisma schema with a model for every table, a view block for every view, and
+ * the enums they use. Without a custom header, the schema starts with `datasource` and
+ * `generator` blocks for the origin dialect.
+ */
+export function generatePrismaSchemaContent(
+  entities: EntityModel[],
+  config: Config,
+  isCamelCase: boolean,
+  header?: string,
+  columnOrder: ColumnOrder = 'ordinal',
+): string {
+  const dialect = getOriginDialect(config, 'prisma')
+  const tables = entities.filter((entity) => entity.kind === 'table')
+  const builder: PrismaSchemaBuilder = {
+    config,
+    dialect,
+    isCamelCase,
+    columnOrder,
+    enums: new Map(),
+    tables: new Set(tables.map((table) => table.name)),
+    relationNames: getRelationNames(tables),
+  }
+
+  const blocks = entities.map((entity) => renderBlock(entity, builder))
+  const hasViews = entities.some((entity) => entity.kind === 'view')
+
+  return [
+    header ?? getDefaultPrismaHeader(dialect, hasViews),
+    blocks.join('\n'),
+    ...[...builder.enums.values()].map((block) => `\n${block}`),
+  ].join('')
+}
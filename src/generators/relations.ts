@@ -0,0 +1,129 @@
+/**
+ * Selectable models extended with their relations, as declared in the relations module of the
+ * zod and ts destinations
+ */
+
+import camelCase from 'camelcase'
+import type {
+  Config,
+  Destination,
+  EntityModel,
+  ForeignKeyModel,
+  RelationModel,
+  RelationsOptions,
+} from '../types/index.js'
+import { applyInflection } from '../utils/inflection.js'
+import { getDestinationSuffix } from '../utils/manifest.js'
+import { toSnakeCase } from './schema-generator.js'
+
+/**
+ * Get the relations options of a destination, or undefined when relations are off
+ */
+function getRelationsOptions(destination: Destination): RelationsOptions | undefined {
+  if (!('relations' in destination) || !destination.relations) return undefined
+  return destination.relations === true ? {} : destination.relations
+}
+
+/**
+ * Generate the relations module of a destination with `relations`: per table, its selectable
+ * model extended with its relations, nested up to `depth` levels. Empty when no table has
+ * relations to include.
+ */
+export function generateRelationsContent(
+  tables: EntityModel[],
+  config: Config,
+  destination: Destination,
+  defaultZodHeader: (version: 3 | 4) => string,
+): string {
+  const options = getRelationsOptions(destination) ?? {}
+  const depth = options.depth ?? 1
+  const isZod = destination.type === 'zod'
+  const tablesByName = new Map(tables.map((table) => [table.name, table]))
+  const importedTables = new Set<string>()
+
+  // Going back through the foreign key that led to a table would repeat its parent
+  const getIncluded = (table: EntityModel, parentForeignKey?: ForeignKeyModel) =>
+    table.relations.filter(
+      (relation) =>
+        relation.foreignKey !== parentForeignKey &&
+        (!options.include || options.include[table.name]?.includes(relation.name)),
+    )
+  const getFieldName = (relation: RelationModel) =>
+    config.camelCase ? camelCase(relation.name) : relation.name
+  const getModelName = (table: string) => {
+    importedTables.add(table)
+    return isZod
+      ? `selectable_${toSnakeCase(table)}`
+      : `Selectable${camelCase(applyInflection(table, config.inflection), { pascalCase: true })}`
+  }
+
+  const renderFields = (relations: RelationModel[], level: number, indent: string) =>
+    relations
+      .map((relation) => {
+        const type = renderRelation(relation, level, indent)
+        return `${indent}${getFieldName(relation)}: ${type}${isZod ? ',' : ';'}\n`
+      })
+      .join('')
+
+  const renderRelation = (relation: RelationModel, level: number, indent: string): string => {
+    const related = tablesByName.get(relation.table) as EntityModel
+    const nested = level < depth ? getIncluded(related, relation.foreignKey) : []
+    let model = getModelName(relation.table)
+    if (nested.length > 0) {
+      const fields = renderFields(nested, level + 1, `${indent}  `)
+      model = isZod
+        ? `${model}.extend({\n${fields}${indent}})`
+        : `${model} & {\n${fields}${indent}}`
+    }
+    // Intersections are wrapped before being made arrays or nullable
+    const wrapped = !isZod && nested.length > 0 ? `(${model})` : model
+
+    if (relation.cardinality === 'many') {
+      return isZod ? `z.array(${model})` : `${wrapped}[]`
+    }
+    if (relation.nullable) {
+      return isZod ? `${model}.nullable()` : `${wrapped} | null`
+    }
+    return model
+  }
+
+  const models: string[] = []
+  for (const table of tables) {
+    const relations = getIncluded(table)
+    if (relations.length === 0) continue
+
+    const withName = `${applyInflection(table.name, config.inflection)}_with_${relations
+      .map((relation) => relation.name)
+      .join('_and_')}`
+    const fields = renderFields(relations, 1, '  ')
+    const model = getModelName(table.name)
+    if (isZod) {
+      const schemaName = `selectable_${toSnakeCase(table.name)}_with_${relations
+        .map((relation) => toSnakeCase(relation.name))
+        .join('_and_')}`
+      const typeName = camelCase(`${withName}_type`, { pascalCase: true })
+      models.push(
+        `export const ${schemaName} = ${model}.extend({\n${fields}})\n` +
+          `export type ${typeName} = z.infer<typeof ${schemaName}>\n`,
+      )
+    } else {
+      const typeName = camelCase(withName, { pascalCase: true })
+      models.push(`export type ${typeName} = ${model} & {\n${fields}};\n`)
+    }
+  }
+  if (models.length === 0) return ''
+
+  const suffix = getDestinationSuffix(destination)
+  const keyword = isZod ? 'import' : 'import type'
+  const imports = [...importedTables]
+    .sort()
+    .map(
+      (table) =>
+        `${keyword} { ${getModelName(table)} } from './${table}${suffix ? `.${suffix}` : ''}';\n`,
+    )
+    .join('')
+
+  const header =
+    destination.type === 'zod' && !destination.header ? defaultZodHeader(destination.version || 3) : ''
+  return `${header}${imports}\n${models.join('\n')}`
+}
@@ -0,0 +1,152 @@
+/**
+ * Module generation shared by the object schema destinations (Valibot, ArkType, TypeBox, Effect, Yup, Joi, ...)
+ */
+
+import camelCase from 'camelcase'
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { getTypeMappings } from '../types/mappings.js'
+import { applyInflection } from '../utils/inflection.js'
+
+/**
+ * How a schema library spells object schemas and inferred types
+ */
+export interface SchemaLibrary {
+  /** Import header used when the destination has no custom header */
+  header: string
+  /** Wrap the rendered field lines into an object schema */
+  object: (fields: string) => string
+  /** Type of the value produced by the schema named `schemaName`, for libraries that infer types */
+  infer?: (schemaName: string) => string
+  getType: (
+    op: OperationType,
+    desc: Desc,
+    config: Config,
+    destination: Destination,
+    entityName?: string,
+  ) => string
+  /** For libraries that mark optional keys (`'key?'`) instead of optional values */
+  isOptionalKey?: (
+    op: OperationType,
+    desc: Desc,
+    config: Config,
+    destination: Destination,
+    entityName?: string,
+  ) => boolean
+}
+
+export interface GenerateSchemaContentParams {
+  entity: string
+  describes: Desc[]
+  config: Config
+  destination: Destination
+  isCamelCase: boolean
+}
+
+/**
+ * Convert PascalCase/camelCase to snake_case
+ */
+export function toSnakeCase(str: string): string {
+  return str
+    .replace(/([A-Z])/g, '_$1')
+    .toLowerCase()
+    .replace(/^_/, '')
+}
+
+/**
+ * Check if a field is an auto-generated datetime field that should be excluded from updateable schemas
+ */
+export function isAutoGeneratedDateTimeField(desc: Desc, schemaType: string): boolean {
+  const { Type, Extra } = desc
+  const type = schemaType === 'prisma' ? Type : Type.toLowerCase()
+
+  // Get type mappings to check if this is a date/datetime field
+  const typeMappings = getTypeMappings(schemaType as 'mysql' | 'postgres' | 'sqlite' | 'prisma')
+  const isDateField = typeMappings.dateTypes.includes(type)
+
+  if (!isDateField) {
+    return false // Not a date field, so not an auto-generated datetime
+  }
+
+  // Check if the field is auto-generated
+  const isGenerated = Extra.toLowerCase().includes('auto_increment') ||
+                     Extra.toLowerCase().includes('default_generated')
+
+  return isGenerated
+}
+
+function renderFields(
+  library: SchemaLibrary,
+  op: OperationType,
+  { entity, describes, config, destination, isCamelCase }: GenerateSchemaContentParams,
+  skipAutoGeneratedDates = false,
+): string {
+  let fields = ''
+  for (const desc of describes) {
+    if (skipAutoGeneratedDates && isAutoGeneratedDateTimeField(desc, config.origin.type)) {
+      continue
+    }
+
+    const fieldName = isCamelCase ? camelCase(desc.Field) : desc.Field
+    const fieldType = library.getType(op, desc, config, destination, entity)
+    const isOptionalKey = library.isOptionalKey?.(op, desc, config, destination, entity)
+    fields += isOptionalKey
+      ? `  '${fieldName}?': ${fieldType},\n`
+      : `  ${fieldName}: ${fieldType},\n`
+  }
+  return fields
+}
+
+/**
+ * Generate table schemas (table, insertable, updateable and selectable) and their inferred types
+ */
+export function generateSchemaContent(
+  library: SchemaLibrary,
+  params: GenerateSchemaContentParams,
+): string {
+  const { entity, config, destination } = params
+  let content = 'header' in destination && destination.header ? '' : library.header
+
+  const snakeTable = toSnakeCase(entity)
+  const inflectedTable = applyInflection(entity, config.inflection)
+
+  content += `export const ${snakeTable} = ${library.object(renderFields(library, 'table', params))}\n\n`
+  // Auto-generated datetime fields are skipped in insertable and updateable schemas
+  content += `export const insertable_${snakeTable} = ${library.object(renderFields(library, 'insertable', params, true))}\n\n`
+  content += `export const updateable_${snakeTable} = ${library.object(renderFields(library, 'updateable', params, true))}\n\n`
+  content += `export const selectable_${snakeTable} = ${library.object(renderFields(library, 'selectable', params))}\n`
+
+  const { infer } = library
+  if (infer) {
+    const pascalInflectedTableType = camelCase(`${inflectedTable}Type`, { pascalCase: true })
+    content += `\nexport type ${pascalInflectedTableType} = ${infer(snakeTable)}\n`
+    content += `export type Insertable${pascalInflectedTableType} = ${infer(`insertable_${snakeTable}`)}\n`
+    content += `export type Updateable${pascalInflectedTableType} = ${infer(`updateable_${snakeTable}`)}\n`
+    content += `export type Selectable${pascalInflectedTableType} = ${infer(`selectable_${snakeTable}`)}\n`
+  }
+
+  return content
+}
+
+/**
+ * Generate a read-only view schema and its type
+ */
+export function generateSchemaViewContent(
+  library: SchemaLibrary,
+  params: GenerateSchemaContentParams,
+): string {
+  const { entity, config, destination } = params
+  let content = 'header' in destination && destination.header ? '' : library.header
+
+  content += `// View schema (read-only)\n`
+  const snakeView = toSnakeCase(entity)
+  content += `export const ${snakeView}_view = ${library.object(renderFields(library, 'selectable', params))}\n`
+
+  if (library.infer) {
+    const pascalView = camelCase(applyInflection(entity, config.inflection), { pascalCase: true })
+    content += `\nexport type ${camelCase(`${pascalView}ViewType`, {
+      pascalCase: true,
+    })} = ${library.infer(`${snakeView}_view`)}\n`
+  }
+
+  return content
+}
@@ -0,0 +1,21 @@
+/**
+ * Schema libraries rendered through the shared object schema generator, by destination type
+ */
+
+import type { Destination } from '../types/index.js'
+import { arkTypeLibrary } from './arktype-generator.js'
+import { effectLibrary } from './effect-generator.js'
+import { joiLibrary } from './joi-generator.js'
+import type { SchemaLibrary } from './schema-generator.js'
+import { typeBoxLibrary } from './typebox-generator.js'
+import { valibotLibrary } from './valibot-generator.js'
+import { yupLibrary } from './yup-generator.js'
+
+export const schemaLibraries: Partial<Record<Destination['type'], SchemaLibrary>> = {
+  valibot: valibotLibrary,
+  arktype: arkTypeLibrary,
+  typebox: typeBoxLibrary,
+  effect: effectLibrary,
+  yup: yupLibrary,
+  joi: joiLibrary,
+}
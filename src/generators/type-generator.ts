@@ -2,15 +2,77 @@
  * Core type generation logic
  */
 
-import type { Config, Desc, Destination } from '../types/index.js'
-import { enumRegex, getTypeMappings, isJsonType } from '../types/mappings.js'
+import camelCase from 'camelcase'
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { getTypeMappings, isJsonType } from '../types/mappings.js'
+import { applyInflection } from '../utils/inflection.js'
+import {
+  formatDefaultValue,
+  getDataType,
+  getDecimalPattern,
+  getDeclaredEnumName,
+  getEnumValues,
+  getIntegerRange,
+  getMaxLength,
+} from './column-type.js'
+import { schemaLibraries } from './schema-libraries.js'
 import {
   extractKyselyExpression,
   extractTSExpression,
   extractZodExpression,
 } from '../utils/magic-comments.js'
 
-export type OperationType = 'table' | 'insertable' | 'updateable' | 'selectable'
+export type { OperationType }
+
+/**
+ * Whether a destination writes the enums declared by the origin to a shared enums module:
+ * with `sharedEnums`, and always with `enumType: 'enum'`, since a TypeScript enum declared in
+ * every file that uses it would be a different, incompatible type in each
+ */
+export function usesSharedEnums(
+  destination: Destination,
+): destination is Extract<Destination, { sharedEnums?: boolean }> {
+  return (
+    (destination as { sharedEnums?: boolean }).sharedEnums === true ||
+    (destination.type === 'ts' && destination.enumType === 'enum')
+  )
+}
+
+/**
+ * Name of the shared enum of a column, when the destination uses shared enums and the origin
+ * declares the column's enum type
+ */
+export function getSharedEnumName(
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+): string | undefined {
+  if (!usesSharedEnums(destination)) return undefined
+  const declaredName = getDeclaredEnumName(desc, config)
+  return declaredName ? camelCase(declaredName, { pascalCase: true }) : undefined
+}
+
+/**
+ * Name of the branded ID type of a column, when the destination uses `brandedIds`
+ */
+export function getIdBrandName(desc: Desc, destination: Destination): string | undefined {
+  return (destination as { brandedIds?: boolean }).brandedIds ? desc.IdBrand : undefined
+}
+
+/**
+ * Name of the TypeScript enum of an enum column with `enumType: 'enum'`: the declared enum type
+ * (Postgres, Prisma) in PascalCase, or `<Table><Column>` for inline enums
+ */
+export function getTsEnumName(desc: Desc, config: Config, entityName: string): string {
+  const declaredName = getDeclaredEnumName(desc, config)
+  if (declaredName) {
+    return camelCase(declaredName, { pascalCase: true })
+  }
+  const pascalEntity = camelCase(applyInflection(entityName, config.inflection), {
+    pascalCase: true,
+  })
+  return `${pascalEntity}${camelCase(desc.Field, { pascalCase: true })}`
+}
 
 /**
  * Generate the appropriate type for a database field
@@ -22,29 +84,15 @@ export function getType(
   destination: Destination,
   entityName?: string,
 ): string {
-  const { Default, Extra, Null, Type, DataType, Comment, EnumOptions } = desc
-  const schemaType = config.origin.type
-  // For Prisma, preserve case; for others, convert to lowercase
-  const type = schemaType === 'prisma' ? Type : Type.toLowerCase()
-  // Use DataType (normalized type from DB) for type category matching, fallback to Type
-  let dataType = DataType
-    ? schemaType === 'prisma'
-      ? DataType
-      : DataType.toLowerCase()
-    : type
-
-  // Handle MySQL tinyint(1) as boolean when tinyIntAsBoolean option is enabled (default true)
-  const isMySQL =
-    schemaType === 'mysql' ||
-    (schemaType === 'sql' && (config.origin as any).dialect === 'mysql')
-  const tinyIntAsBoolean =
-    isMySQL && (config.origin as any).tinyIntAsBoolean !== false
-  const isTinyInt1 =
-    isMySQL && dataType === 'tinyint' && Type.toLowerCase().includes('(1)')
-  if (tinyIntAsBoolean && isTinyInt1) {
-    dataType = 'boolean'
+  const schemaLibrary = schemaLibraries[destination.type]
+  if (schemaLibrary) {
+    return schemaLibrary.getType(op, desc, config, destination, entityName)
   }
 
+  const { Default, Extra, Null, Type, Comment } = desc
+  const schemaType = config.origin.type
+  const dataType = getDataType(desc, config)
+
   const isNull = Null === 'YES'
   const hasDefaultValue = Default !== null
   const isGenerated =
@@ -152,23 +200,7 @@ export function getType(
         Default !== null &&
         !isGenerated
       ) {
-        let defaultValueFormatted = Default
-        if (
-          typeMappings.stringTypes.includes(dataType) ||
-          typeMappings.dateTypes.includes(dataType)
-        ) {
-          defaultValueFormatted = `'${Default}'`
-        } else if (typeMappings.booleanTypes.includes(dataType)) {
-          const normalizedDefault = Default.toLowerCase()
-          defaultValueFormatted =
-            normalizedDefault === 'true' || normalizedDefault === '1'
-              ? 'true'
-              : 'false'
-        } else if (typeMappings.numberTypes.includes(dataType)) {
-          defaultValueFormatted = Default
-        } else {
-          defaultValueFormatted = `'${Default}'`
-        }
+        const defaultValueFormatted = formatDefaultValue(Default, dataType, typeMappings)
 
         if (shouldBeNullable && shouldBeOptional) {
           return `${overrideType}.${nullableMethod}().default(${defaultValueFormatted})`
@@ -209,103 +241,83 @@ export function getType(
   }
 
   // Handle enum types
-  const enumTypesForSchema = typeMappings.enumTypes || []
-  const isEnum = enumTypesForSchema.includes(dataType)
-
-  // For Prisma, also check if the type exists in enumDeclarations
-  const isPrismaEnum =
-    schemaType === 'prisma' &&
-    config.enumDeclarations &&
-    config.enumDeclarations[type]
-
-  if (isEnum || isPrismaEnum) {
-    let enumValues: string[] = []
-
-    // Check if this is a MySQL enum (including SQL files with MySQL dialect)
-    const isMySQLEnum =
-      (schemaType === 'mysql' ||
-        (schemaType === 'sql' && dialect === 'mysql')) &&
-      dataType === 'enum'
-
-    if (isMySQLEnum) {
-      const match = Type.match(enumRegex)
-      if (match) {
-        enumValues = match[1].split(',').map((v) => v.trim().replace(/'/g, ''))
-      }
-    } else if (schemaType === 'postgres' && EnumOptions) {
-      enumValues = EnumOptions
-    } else if (isPrismaEnum && config.enumDeclarations) {
-      enumValues = config.enumDeclarations[type]
-    }
+  const enumValues = getEnumValues(desc, config, dataType)
 
-    if (enumValues.length > 0) {
-      // Determine if field should be nullable (can be null in database)
-      const shouldBeNullable = isNull
+  if (enumValues.length > 0) {
+    // Determine if field should be nullable (can be null in database)
+    const shouldBeNullable = isNull
 
-      // Determine if field should be optional (can be omitted from input)
-      const shouldBeOptional =
-        (op === 'insertable' && (hasDefaultValue || isGenerated)) ||
-        op === 'updateable'
-
-      if (isZodDestination) {
-        const enumString = `z.enum([${enumValues.map((v) => `'${v}'`).join(',')}])`
-        const nullishOption = (destination as any).nullish
-        // For selectable schemas, always use .nullable() since DB fields are never undefined
-        const nullableMethod =
-          nullishOption && op !== 'selectable' ? 'nullish' : 'nullable'
+    // Determine if field should be optional (can be omitted from input)
+    const shouldBeOptional =
+      (op === 'insertable' && (hasDefaultValue || isGenerated)) ||
+      op === 'updateable'
 
-        // Handle default values for main, insertable, and updateable schemas (NOT selectable)
-        // Note: selectable schemas should NOT have .default() because when selecting from DB,
-        // you always get a value (either user-provided or DB default)
-        if (
-          (op === 'table' || op === 'insertable' || op === 'updateable') &&
-          hasDefaultValue &&
-          Default !== null &&
-          !isGenerated
-        ) {
-          // Field has an explicit default value (not auto-generated)
-          if (shouldBeNullable && shouldBeOptional) {
-            // For updateable: nullable and optional with default at the end
-            return `${enumString}.${nullableMethod}().default('${Default}')`
-          } else if (shouldBeNullable) {
-            return `${enumString}.${nullableMethod}().default('${Default}')`
-          } else if (shouldBeOptional) {
-            // For updateable: optional with default at the end
-            return `${enumString}.optional().default('${Default}')`
-          } else {
-            return `${enumString}.default('${Default}')`
-          }
-        }
+    if (isZodDestination) {
+      const enumString =
+        getSharedEnumName(desc, config, destination) ??
+        `z.enum([${enumValues.map((v) => `'${v}'`).join(',')}])`
+      const nullishOption = (destination as any).nullish
+      // For selectable schemas, always use .nullable() since DB fields are never undefined
+      const nullableMethod =
+        nullishOption && op !== 'selectable' ? 'nullish' : 'nullable'
 
+      // Handle default values for main, insertable, and updateable schemas (NOT selectable)
+      // Note: selectable schemas should NOT have .default() because when selecting from DB,
+      // you always get a value (either user-provided or DB default)
+      if (
+        (op === 'table' || op === 'insertable' || op === 'updateable') &&
+        hasDefaultValue &&
+        Default !== null &&
+        !isGenerated
+      ) {
+        // Field has an explicit default value (not auto-generated)
         if (shouldBeNullable && shouldBeOptional) {
-          // Field is both nullable and optional
-          return `${enumString}.${nullableMethod}()`
+          // For updateable: nullable and optional with default at the end
+          return `${enumString}.${nullableMethod}().default('${Default}')`
         } else if (shouldBeNullable) {
-          // Field is nullable but required
-          return `${enumString}.${nullableMethod}()`
+          return `${enumString}.${nullableMethod}().default('${Default}')`
         } else if (shouldBeOptional) {
-          // Field is optional but not nullable (auto-generated fields)
-          return `${enumString}.optional()`
+          // For updateable: optional with default at the end
+          return `${enumString}.optional().default('${Default}')`
         } else {
-          // Field is required and not nullable
-          return enumString
+          return `${enumString}.default('${Default}')`
         }
-      } else if (isTsDestination) {
-        const enumString = enumValues.map((v) => `'${v}'`).join(' | ')
+      }
 
-        if (shouldBeNullable) {
-          return `${enumString} | null`
-        } else {
-          return enumString
-        }
-      } else if (isKyselyDestination) {
-        const enumString = enumValues.map((v) => `'${v}'`).join(' | ')
+      if (shouldBeNullable && shouldBeOptional) {
+        // Field is both nullable and optional
+        return `${enumString}.${nullableMethod}()`
+      } else if (shouldBeNullable) {
+        // Field is nullable but required
+        return `${enumString}.${nullableMethod}()`
+      } else if (shouldBeOptional) {
+        // Field is optional but not nullable (auto-generated fields)
+        return `${enumString}.optional()`
+      } else {
+        // Field is required and not nullable
+        return enumString
+      }
+    } else if (isTsDestination) {
+      const useEnum =
+        (destination as { enumType?: 'union' | 'enum' }).enumType === 'enum' && entityName
+      const enumString =
+        getSharedEnumName(desc, config, destination) ??
+        (useEnum
+          ? getTsEnumName(desc, config, entityName)
+          : enumValues.map((v) => `'${v}'`).join(' | '))
 
-        if (shouldBeNullable) {
-          return `${enumString} | null`
-        } else {
-          return enumString
-        }
+      if (shouldBeNullable) {
+        return `${enumString} | null`
+      } else {
+        return enumString
+      }
+    } else if (isKyselyDestination) {
+      const enumString = enumValues.map((v) => `'${v}'`).join(' | ')
+
+      if (shouldBeNullable) {
+        return `${enumString} | null`
+      } else {
+        return enumString
       }
     }
   }
@@ -344,6 +356,9 @@ function generateStandardType(
 
   const isZodDestination = destination.type === 'zod'
   const isKyselyDestination = destination.type === 'kysely'
+  // Like other validation modifiers, constraints only apply to input schemas
+  const hasConstraints =
+    destination.type === 'zod' && destination.constraints === true && op !== 'selectable'
 
   // Determine if field should be nullable (can be null in database)
   const shouldBeNullable = isNull
@@ -388,6 +403,8 @@ function generateStandardType(
         if (!(hasDefaultValue || shouldBeNullable)) {
           baseType += '.min(1)'
         }
+        const decimalPattern = hasConstraints ? getDecimalPattern(Type) : undefined
+        if (decimalPattern) baseType += `.regex(${decimalPattern})`
       }
     } else if (isKyselyDestination) {
       baseType = 'Decimal'
@@ -398,6 +415,12 @@ function generateStandardType(
     if (isZodDestination) {
       baseType = 'z.number()'
       // Removed automatic .nonnegative() - integers can be negative
+      const integerRange = hasConstraints ? getIntegerRange(desc, config, dataType) : undefined
+      if (integerRange) {
+        baseType += '.int()'
+        if (integerRange.min !== undefined) baseType += `.min(${integerRange.min})`
+        if (integerRange.max !== undefined) baseType += `.max(${integerRange.max})`
+      }
     } else {
       baseType = 'number'
     }
@@ -429,6 +452,8 @@ function generateStandardType(
         !hasDefaultValue
       )
         baseType += '.min(1)'
+      const maxLength = hasConstraints ? getMaxLength(Type) : undefined
+      if (maxLength !== undefined) baseType += `.max(${maxLength})`
     } else {
       baseType = 'string'
     }
@@ -437,6 +462,9 @@ function generateStandardType(
     baseType = isZodDestination ? 'z.string()' : 'string'
   }
 
+  // Branded IDs replace the base type, keeping nullability and defaults
+  baseType = getIdBrandName(desc, destination) ?? baseType
+
   // Apply nullability and optionality
   if (isZodDestination) {
     const nullishOption = (destination as any).nullish
@@ -455,26 +483,7 @@ function generateStandardType(
     ) {
       // Field has an explicit default value (not auto-generated)
       // For non-enum types, we need to format the default value appropriately
-      let defaultValueFormatted = Default
-
-      // Handle different types of default values
-      if (
-        typeMappings.stringTypes.includes(dataType) ||
-        typeMappings.dateTypes.includes(dataType)
-      ) {
-        defaultValueFormatted = `'${Default}'`
-      } else if (typeMappings.booleanTypes.includes(dataType)) {
-        const normalizedDefault = Default.toLowerCase()
-        defaultValueFormatted =
-          normalizedDefault === 'true' || normalizedDefault === '1'
-            ? 'true'
-            : 'false'
-      } else if (typeMappings.numberTypes.includes(dataType)) {
-        defaultValueFormatted = Default
-      } else {
-        // For other types, wrap in quotes
-        defaultValueFormatted = `'${Default}'`
-      }
+      const defaultValueFormatted = formatDefaultValue(Default, dataType, typeMappings)
 
       if (shouldBeNullable && shouldBeOptional) {
         // For updateable: nullable and optional with default at the end
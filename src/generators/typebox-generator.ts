@@ -0,0 +1,74 @@
+/**
+ * TypeBox schema generation
+ */
+
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { defaultTypeBoxHeader } from '../constants.js'
+import { type ColumnType, resolveColumnType } from './column-type.js'
+import type { SchemaLibrary } from './schema-generator.js'
+
+/**
+ * Render a TypeBox options object, or nothing when there are no options
+ */
+function formatOptions(options: Record<string, string>): string {
+  const entries = Object.entries(options)
+  if (entries.length === 0) return ''
+  return `{ ${entries.map(([key, value]) => `${key}: ${value}`).join(', ')} }`
+}
+
+/**
+ * Render the TypeBox schema of a column type, without nullability
+ */
+function getTypeBoxBaseSchema(column: ColumnType, options: Record<string, string>): string {
+  if (column.kind === 'expression') {
+    return column.expression as string
+  }
+  if (column.kind === 'enum') {
+    const literals = column.enumValues.map((v) => `Type.Literal('${v}')`).join(', ')
+    const enumOptions = formatOptions(options)
+    return `Type.Union([${literals}]${enumOptions ? `, ${enumOptions}` : ''})`
+  }
+  if (column.kind === 'number') {
+    return `Type.Number(${formatOptions(options)})`
+  }
+  if (column.kind === 'boolean') {
+    return `Type.Boolean(${formatOptions(options)})`
+  }
+  if (column.kind === 'date') {
+    // Request bodies are JSON, so dates arrive as ISO strings
+    return `Type.String(${formatOptions({ format: "'date-time'", ...options })})`
+  }
+  return `Type.String(${formatOptions(column.minLength ? { minLength: '1', ...options } : options)})`
+}
+
+/**
+ * Generate the TypeBox schema of a database field
+ */
+export function getTypeBoxType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): string {
+  const column = resolveColumnType(op, desc, config, destination, 'typebox', entityName)
+  const defaultOptions: Record<string, string> =
+    column.default !== null ? { default: column.default } : {}
+
+  let schema: string
+  if (column.nullable) {
+    const options = formatOptions(defaultOptions)
+    schema = `Type.Union([${getTypeBoxBaseSchema(column, {})}, Type.Null()]${options ? `, ${options}` : ''})`
+  } else {
+    schema = getTypeBoxBaseSchema(column, defaultOptions)
+  }
+
+  return column.default !== null || column.optionalKey ? `Type.Optional(${schema})` : schema
+}
+
+export const typeBoxLibrary: SchemaLibrary = {
+  header: defaultTypeBoxHeader,
+  object: (fields) => `Type.Object({\n${fields}})`,
+  infer: (schemaName) => `Static<typeof ${schemaName}>`,
+  getType: getTypeBoxType,
+}
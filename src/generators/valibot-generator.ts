@@ -0,0 +1,77 @@
+/**
+ * Valibot schema generation
+ */
+
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { defaultValibotHeader } from '../constants.js'
+import { type ColumnType, resolveColumnType } from './column-type.js'
+import type { SchemaLibrary } from './schema-generator.js'
+
+/**
+ * Render the Valibot schema of a column type, without nullability or defaults
+ */
+function getValibotBaseSchema(column: ColumnType, destination: Destination): string {
+  const { useDateType, useBooleanType } = destination as {
+    useDateType?: boolean
+    useBooleanType?: boolean
+  }
+
+  if (column.kind === 'expression') {
+    return column.expression as string
+  }
+  if (column.kind === 'enum') {
+    return `v.picklist([${column.enumValues.map((v) => `'${v}'`).join(',')}])`
+  }
+  if (column.kind === 'date') {
+    return useDateType
+      ? 'v.pipe(v.union([v.number(), v.string(), v.date()]), v.transform((value) => new Date(value)))'
+      : 'v.date()'
+  }
+  if (column.kind === 'boolean') {
+    return useBooleanType
+      ? 'v.pipe(v.union([v.number(), v.string(), v.boolean()]), v.transform((value) => Boolean(value)))'
+      : 'v.boolean()'
+  }
+  if (column.kind === 'number') {
+    return 'v.number()'
+  }
+
+  const actions: string[] = []
+  if (column.trim) actions.push('v.trim()')
+  if (column.minLength) actions.push('v.minLength(1)')
+
+  return actions.length > 0 ? `v.pipe(v.string(), ${actions.join(', ')})` : 'v.string()'
+}
+
+/**
+ * Generate the Valibot schema of a database field
+ */
+export function getValibotType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): string {
+  const column = resolveColumnType(op, desc, config, destination, 'valibot', entityName)
+  const nullish = (destination as { nullish?: boolean }).nullish
+  // For selectable schemas, always use v.nullable() since DB fields are never undefined
+  const nullableMethod = nullish && op !== 'selectable' ? 'nullish' : 'nullable'
+
+  let schema = getValibotBaseSchema(column, destination)
+  if (column.nullable) {
+    schema = `v.${nullableMethod}(${schema})`
+  }
+
+  if (column.default !== null) {
+    return `v.optional(${schema}, ${column.default})`
+  }
+  return column.optionalKey ? `v.optional(${schema})` : schema
+}
+
+export const valibotLibrary: SchemaLibrary = {
+  header: defaultValibotHeader,
+  object: (fields) => `v.object({\n${fields}})`,
+  infer: (schemaName) => `v.InferOutput<typeof ${schemaName}>`,
+  getType: getValibotType,
+}
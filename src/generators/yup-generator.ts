@@ -0,0 +1,71 @@
+/**
+ * Yup schema generation
+ */
+
+import type { Config, Desc, Destination, OperationType } from '../types/index.js'
+import { defaultYupHeader } from '../constants.js'
+import { type ColumnType, resolveColumnType } from './column-type.js'
+import type { SchemaLibrary } from './schema-generator.js'
+
+/**
+ * Render the Yup schema of a column type, without nullability or defaults
+ */
+function getYupBaseSchema(column: ColumnType): string {
+  if (column.kind === 'expression') {
+    return column.expression as string
+  }
+  if (column.kind === 'enum') {
+    return `yup.string().oneOf([${column.enumValues.map((v) => `'${v}'`).join(', ')}])`
+  }
+  if (column.kind === 'date') {
+    return 'yup.date()'
+  }
+  if (column.kind === 'boolean') {
+    return 'yup.boolean()'
+  }
+  if (column.kind === 'number') {
+    return 'yup.number()'
+  }
+
+  let schema = 'yup.string()'
+  if (column.trim) schema += '.trim()'
+  if (column.minLength) schema += '.min(1)'
+  if (column.maxLength !== undefined) schema += `.max(${column.maxLength})`
+  return schema
+}
+
+/**
+ * Generate the Yup schema of a database field
+ */
+export function getYupType(
+  op: OperationType,
+  desc: Desc,
+  config: Config,
+  destination: Destination,
+  entityName?: string,
+): string {
+  const column = resolveColumnType(op, desc, config, destination, 'yup', entityName)
+
+  let schema = getYupBaseSchema(column)
+  if (column.nullable) {
+    schema += '.nullable()'
+  }
+
+  if (column.default !== null) {
+    return `${schema}.default(${column.default})`
+  }
+
+  if (column.optionalKey) {
+    return `${schema}.optional()`
+  }
+  // .defined() rejects undefined without rejecting empty strings like .required() does;
+  // user-supplied expressions are left as they are
+  return column.kind === 'expression' ? schema : `${schema}.defined()`
+}
+
+export const yupLibrary: SchemaLibrary = {
+  header: defaultYupHeader,
+  object: (fields) => `yup.object({\n${fields}})`,
+  infer: (schemaName) => `yup.InferType<typeof ${schemaName}>`,
+  getType: getYupType,
+}
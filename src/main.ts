@@ -6,205 +6,347 @@ import * as path from 'node:path'
 import camelCase from 'camelcase'
 import { writeFile } from 'node:fs/promises'
 import { ensureDir } from 'fs-extra/esm'
-import type { Config, Desc } from './types/index.js'
-import { filterTables, filterViews, createEntityList } from './utils/filters.js'
+import type { Config, DestinationPlugin } from './types/index.js'
 import { applyInflection } from './utils/inflection.js'
-import { generateContent, generateViewContent } from './generators/content-generator.js'
 import {
-  createDatabaseConnection,
-  extractTables,
-  extractViews,
-  extractColumnDescriptions
-} from './database/connection.js'
-import {
-  extractPrismaEntities,
-  extractPrismaColumnDescriptions
-} from './database/prisma.js'
-import {
-  extractSqlEntities,
-  extractSqlColumnDescriptions
-} from './database/sql.js'
+  generateContent,
+  generateEnumsContent,
+  generateViewContent,
+} from './generators/content-generator.js'
+import { getOriginDialect } from './generators/column-type.js'
+import { generateIdsContent, getIdBrands, renderTsIdBrands } from './generators/id-brands.js'
+import { generateDrizzleContent } from './generators/drizzle-generator.js'
+import { generatePrismaSchemaContent } from './generators/prisma-schema-generator.js'
+import { generateDdlContent } from './generators/ddl-generator.js'
+import { generateGraphQLContent } from './generators/graphql-generator.js'
+import { generateOpenApiContent, getOpenApiOutFile } from './generators/openapi-generator.js'
+import { generatePluginFiles, resolvePlugin } from './generators/plugin-generator.js'
+import { generateRelationsContent } from './generators/relations.js'
+import { usesSharedEnums } from './generators/type-generator.js'
+import { getColumnOrder, getEntityDescribes, introspect } from './database/introspection.js'
 import { defaultKyselyHeader, defaultZodHeader, kyselyJsonTypes } from './constants.js'
+import { detectDrift, formatDriftReport, GenerationDriftError, hasDrift } from './utils/drift.js'
+import {
+  cleanStaleFiles,
+  getDestinationExtension,
+  getDestinationSuffix,
+  isConsolidatedDestination,
+} from './utils/manifest.js'
 export {
   extractTypeExpression,
   extractTSExpression,
   extractKyselyExpression,
-  extractZodExpression
+  extractZodExpression,
+  extractValibotExpression,
+  extractArkTypeExpression,
+  extractTypeBoxExpression,
+  extractEffectExpression,
+  extractYupExpression,
+  extractJoiExpression,
+  extractGraphQLExpression
 } from './utils/magic-comments.js'
-export type { Config, Desc, Destination } from './types/index.js'
+export type {
+  ColumnModel,
+  ColumnOrder,
+  ColumnReference,
+  Config,
+  Desc,
+  Destination,
+  DestinationPlugin,
+  EntityModel,
+  EnumModel,
+  ForeignKeyModel,
+  IndexModel,
+  OperationType,
+  PluginContext,
+  PluginDestination,
+  RelationModel,
+  RelationsOptions,
+  SchemaModel,
+  TypeTarget,
+} from './types/index.js'
+export { introspect, columnToDesc } from './database/introspection.js'
 export { generateContent, generateViewContent } from './generators/content-generator.js'
 export { getType } from './generators/type-generator.js'
 export { defaultKyselyHeader, defaultZodHeader }
+export { loadConfigFile, validateConfig } from './utils/config-loader.js'
+export { GenerationDriftError } from './utils/drift.js'
+export type { DriftReport } from './utils/drift.js'
+export { watch } from './watch.js'
+export type { Watcher, WatchOptions } from './watch.js'
+
+/**
+ * Identity helper that gives type checking to mutano.config.ts files
+ */
+export function defineConfig(config: Config): Config {
+  return config
+}
+
+/**
+ * Identity helper that gives type checking to destination plugins
+ */
+export function definePlugin(plugin: DestinationPlugin): DestinationPlugin {
+  return plugin
+}
 
 export async function generate(config: Config): Promise<Record<string, string>> {
-  let tables: string[] = []
-  let views: string[] = []
-  let enumDeclarations: Record<string, string[]> = {}
-  let db: ReturnType<typeof createDatabaseConnection> | null = null
-  let sqlTableDefinitions: Map<string, ReturnType<typeof extractSqlEntities>['tableDefinitions']> | null = null
-
-  try {
-    if (config.origin.type === 'prisma') {
-      const prismaEntities = extractPrismaEntities(config)
-      tables = prismaEntities.tables
-      views = prismaEntities.views
-      enumDeclarations = prismaEntities.enumDeclarations
-      config.enumDeclarations = enumDeclarations
-    } else if (config.origin.type === 'sql') {
-      const sqlEntities = extractSqlEntities(config)
-      tables = sqlEntities.tables
-      views = sqlEntities.views
-      sqlTableDefinitions = sqlEntities.tableDefinitions
-      // Note: Views from SQL files need database connection for column info
-    } else {
-      db = createDatabaseConnection(config)
-      tables = await extractTables(db, config)
-      views = await extractViews(db, config)
+  const pluginDestinations = config.destinations
+    .filter((d) => d.type === 'custom')
+    .map((destination) => ({ destination, plugin: resolvePlugin(destination, config) }))
+  // Fail before introspection when the origin cannot produce a SQL schema
+  for (const destination of config.destinations) {
+    if (destination.type === 'drizzle' || destination.type === 'prisma') {
+      getOriginDialect(config, destination.type)
     }
-    tables = filterTables(tables, config.tables, config.ignore)
-    if (!config.includeViews) {
-      views = []
-    } else {
-      views = filterViews(views, config.views, config.ignoreViews)
+  }
+
+  const model = await introspect(config)
+  const allEntities = [...model.tables, ...model.views].sort((a, b) => a.name.localeCompare(b.name))
+  const enumDeclarations = Object.fromEntries(model.enums.map((e) => [e.name, e.values]))
+  const idBrands = getIdBrands(model.tables, config)
+
+  const results: Record<string, string> = {}
+  const isCamelCase = config.camelCase === true
+  const nonKyselyDestinations = config.destinations.filter((d) => !isConsolidatedDestination(d))
+
+  for (const entity of allEntities) {
+    const { name: entityName, kind: entityType } = entity
+
+    for (const destination of nonKyselyDestinations) {
+      const describes = getEntityDescribes(
+        entity,
+        getColumnOrder(config, destination),
+        idBrands.columnBrands.get(entityName),
+      )
+      const content = entityType === 'view'
+        ? generateViewContent({
+            view: entityName,
+            describes,
+            config,
+            destination,
+            isCamelCase,
+            enumDeclarations,
+            defaultZodHeader,
+          })
+        : generateContent({
+            table: entityName,
+            describes,
+            config,
+            destination,
+            isCamelCase,
+            enumDeclarations,
+            defaultZodHeader,
+          })
+
+      const suffix = getDestinationSuffix(destination)
+      const folder = destination.folder || '.'
+      const fileName = `${entityName}${suffix ? `.${suffix}`: ''}${getDestinationExtension(destination)}`
+      const filePath = path.join(folder, fileName)
+
+      // JSON documents cannot have a header
+      const header = destination.type === 'jsonschema' ? '' : destination.header || ''
+      results[filePath] = header + content
     }
-    const allEntities = createEntityList(tables, views)
+  }
 
-    const results: Record<string, string> = {}
-    const isCamelCase = config.camelCase === true
-    const nonKyselyDestinations = config.destinations.filter((d) => d.type !== 'kysely')
+  for (const destination of nonKyselyDestinations) {
+    if (!usesSharedEnums(destination) || model.enums.length === 0) {
+      continue
+    }
+    const filePath = path.join(destination.folder || '.', 'enums.ts')
+    if (filePath in results) {
+      throw new Error(
+        `Cannot write shared enums to ${filePath}: another destination writes the same file. Use a different folder.`,
+      )
+    }
+    results[filePath] = (destination.header || '') +
+      generateEnumsContent(model.enums, destination, defaultZodHeader)
+  }
 
-    for (const entity of allEntities) {
-      const { name: entityName, type: entityType } = entity
-
-      let describes: Desc[]
-      if (config.origin.type === 'prisma') {
-        describes = extractPrismaColumnDescriptions(config, entityName, enumDeclarations)
-      } else if (config.origin.type === 'sql') {
-        describes = extractSqlColumnDescriptions(config, entityName, sqlTableDefinitions!)
-      } else {
-        describes = await extractColumnDescriptions(db!, config, entityName)
-      }
-
-      if (describes.length === 0) continue
-
-      for (const destination of nonKyselyDestinations) {
-        const content = entityType === 'view'
-          ? generateViewContent({
-              view: entityName,
-              describes: describes.sort((a, b) => a.Field.localeCompare(b.Field)),
-              config,
-              destination,
-              isCamelCase,
-              enumDeclarations,
-              defaultZodHeader,
-            })
-          : generateContent({
-              table: entityName,
-              describes: describes.sort((a, b) => a.Field.localeCompare(b.Field)),
-              config,
-              destination,
-              isCamelCase,
-              enumDeclarations,
-              defaultZodHeader,
-            })
-
-        const suffix = destination.suffix === undefined ? destination.type : destination.suffix
-        const folder = destination.folder || '.'
-        const fileName = `${entityName}${suffix ? `.${suffix}`: ''}.ts`
-        const filePath = path.join(folder, fileName)
-
-        results[filePath] = (destination.header || '') + content
-      }
+  for (const destination of nonKyselyDestinations) {
+    if (!('brandedIds' in destination && destination.brandedIds) || idBrands.brands.length === 0) {
+      continue
     }
+    const filePath = path.join(destination.folder || '.', 'ids.ts')
+    if (filePath in results) {
+      throw new Error(
+        `Cannot write branded IDs to ${filePath}: another destination writes the same file. Use a different folder.`,
+      )
+    }
+    results[filePath] = (destination.header || '') +
+      generateIdsContent(idBrands.brands, config, destination, defaultZodHeader)
+  }
 
-    const kyselyDestinations = config.destinations.filter((d) => d.type === 'kysely')
-
-    for (const kyselyDestination of kyselyDestinations) {
-      const header = kyselyDestination.header || defaultKyselyHeader
-      const schemaName = kyselyDestination.schemaName || 'DB'
-
-      let consolidatedContent = `${header}\n${kyselyJsonTypes}`
-      const tableContents: Array<{ table: string; content: string }> = []
-
-      for (const entity of allEntities) {
-        const { name: entityName, type: entityType } = entity
-
-        let describes: Desc[]
-        if (config.origin.type === 'prisma') {
-          describes = extractPrismaColumnDescriptions(config, entityName, enumDeclarations)
-        } else if (config.origin.type === 'sql') {
-          describes = extractSqlColumnDescriptions(config, entityName, sqlTableDefinitions!)
-        } else {
-          describes = await extractColumnDescriptions(db!, config, entityName)
-        }
-
-        if (describes.length === 0) continue
-
-        const content = entityType === 'view'
-          ? generateViewContent({
-              view: entityName,
-              describes: describes.sort((a, b) => a.Field.localeCompare(b.Field)),
-              config,
-              destination: kyselyDestination,
-              isCamelCase,
-              enumDeclarations,
-              defaultZodHeader,
-            })
-          : generateContent({
-              table: entityName,
-              describes: describes.sort((a, b) => a.Field.localeCompare(b.Field)),
-              config,
-              destination: kyselyDestination,
-              isCamelCase,
-              enumDeclarations,
-              defaultZodHeader,
-            })
-
-        tableContents.push({ table: entityName, content })
-        consolidatedContent += content + '\n'
-      }
-
-      consolidatedContent += `\n// Database Interface\nexport interface ${schemaName} {\n`
-
-      const sortedTableEntries = tableContents
-        .map(({ table, content }) => {
-          const isView = content.includes('(view')
-          const inflectedTable = applyInflection(table, config.inflection)
-          const pascalTable = camelCase(inflectedTable, { pascalCase: true }) + (isView ? 'View' : '')
-          const tableKey = isCamelCase ? camelCase(inflectedTable) : inflectedTable
-          return { tableKey, pascalTable, isView }
-        })
-        .sort((a, b) => a.tableKey.localeCompare(b.tableKey))
-
-      for (const { tableKey, pascalTable } of sortedTableEntries) {
-        consolidatedContent += `  ${tableKey}: ${pascalTable};\n`
-      }
-
-      consolidatedContent += '}\n'
-
-      const outputFile = kyselyDestination.outFile ||
-                        path.join(kyselyDestination.folder || '.', 'db.ts')
-
-      results[outputFile] = consolidatedContent
+  for (const destination of nonKyselyDestinations) {
+    if (!('relations' in destination && destination.relations)) continue
+    const content = generateRelationsContent(model.tables, config, destination, defaultZodHeader)
+    if (!content) continue
+    const filePath = path.join(destination.folder || '.', 'relations.ts')
+    if (filePath in results) {
+      throw new Error(
+        `Cannot write relations to ${filePath}: another destination writes the same file. Use a different folder.`,
+      )
     }
+    results[filePath] = (destination.header || '') + content
+  }
+
+  const kyselyDestinations = config.destinations.filter((d) => d.type === 'kysely')
 
-    if (config.dryRun) {
-      return results
+  for (const kyselyDestination of kyselyDestinations) {
+    const header = kyselyDestination.header || defaultKyselyHeader
+    const schemaName = kyselyDestination.schemaName || 'DB'
+
+    let consolidatedContent = `${header}\n${kyselyJsonTypes}`
+    if (kyselyDestination.brandedIds && idBrands.brands.length > 0) {
+      consolidatedContent += `// Branded ID types\n${renderTsIdBrands(idBrands.brands, config, kyselyDestination)}\n`
     }
+    const tableContents: Array<{ table: string; content: string }> = []
+
+    for (const entity of allEntities) {
+      const { name: entityName, kind: entityType } = entity
+      const describes = getEntityDescribes(
+        entity,
+        getColumnOrder(config, kyselyDestination),
+        idBrands.columnBrands.get(entityName),
+      )
 
-    for (const [filePath, content] of Object.entries(results)) {
-      const fullPath = path.resolve(filePath)
-      await ensureDir(path.dirname(fullPath))
-      await writeFile(fullPath, content)
+      const content = entityType === 'view'
+        ? generateViewContent({
+            view: entityName,
+            describes,
+            config,
+            destination: kyselyDestination,
+            isCamelCase,
+            enumDeclarations,
+            defaultZodHeader,
+          })
+        : generateContent({
+            table: entityName,
+            describes,
+            config,
+            destination: kyselyDestination,
+            isCamelCase,
+            enumDeclarations,
+            defaultZodHeader,
+          })
 
-      if (!config.silent) {
-        console.log(`Created: ${filePath}`)
-      }
+      tableContents.push({ table: entityName, content })
+      consolidatedContent += content + '\n'
+    }
+
+    consolidatedContent += `\n// Database Interface\nexport interface ${schemaName} {\n`
+
+    const sortedTableEntries = tableContents
+      .map(({ table, content }) => {
+        const isView = content.includes('(view')
+        const inflectedTable = applyInflection(table, config.inflection)
+        const pascalTable = camelCase(inflectedTable, { pascalCase: true }) + (isView ? 'View' : '')
+        const tableKey = isCamelCase ? camelCase(inflectedTable) : inflectedTable
+        return { tableKey, pascalTable, isView }
+      })
+      .sort((a, b) => a.tableKey.localeCompare(b.tableKey))
+
+    for (const { tableKey, pascalTable } of sortedTableEntries) {
+      consolidatedContent += `  ${tableKey}: ${pascalTable};\n`
+    }
+
+    consolidatedContent += '}\n'
+
+    const outputFile = kyselyDestination.outFile ||
+                      path.join(kyselyDestination.folder || '.', 'db.ts')
+
+    results[outputFile] = consolidatedContent
+  }
+
+  for (const openApiDestination of config.destinations.filter((d) => d.type === 'openapi')) {
+    results[getOpenApiOutFile(openApiDestination)] = generateOpenApiContent(
+      allEntities,
+      config,
+      openApiDestination,
+      isCamelCase,
+    )
+  }
+
+  for (const graphqlDestination of config.destinations.filter((d) => d.type === 'graphql')) {
+    const outputFile = graphqlDestination.outFile ||
+                      path.join(graphqlDestination.folder || '.', 'schema.graphql')
+
+    results[outputFile] = (graphqlDestination.header || '') +
+      generateGraphQLContent(allEntities, config, isCamelCase, getColumnOrder(config, graphqlDestination))
+  }
+
+  for (const drizzleDestination of config.destinations.filter((d) => d.type === 'drizzle')) {
+    const outputFile = drizzleDestination.outFile ||
+                      path.join(drizzleDestination.folder || '.', 'schema.ts')
+
+    results[outputFile] = (drizzleDestination.header || '') +
+      generateDrizzleContent(allEntities, config, isCamelCase, getColumnOrder(config, drizzleDestination))
+  }
+
+  for (const prismaDestination of config.destinations.filter((d) => d.type === 'prisma')) {
+    const outputFile = prismaDestination.outFile ||
+                      path.join(prismaDestination.folder || '.', 'schema.prisma')
+
+    results[outputFile] = generatePrismaSchemaContent(
+      allEntities,
+      config,
+      isCamelCase,
+      prismaDestination.header,
+      getColumnOrder(config, prismaDestination),
+    )
+  }
+
+  for (const sqlDestination of config.destinations.filter((d) => d.type === 'sql')) {
+    const outputFile = sqlDestination.outFile ||
+                      path.join(sqlDestination.folder || '.', 'schema.sql')
+    const dialect = sqlDestination.dialect || model.dialect || 'mysql'
+
+    results[outputFile] = (sqlDestination.header || '') +
+      generateDdlContent(
+        allEntities,
+        config,
+        dialect,
+        model.dialect,
+        getColumnOrder(config, sqlDestination),
+      )
+  }
+
+  for (const { destination, plugin } of pluginDestinations) {
+    Object.assign(results, generatePluginFiles(plugin, destination, allEntities, model, config))
+  }
+
+  if (config.check) {
+    const report = await detectDrift(results, config.destinations, config.partial)
+    if (!config.silent) {
+      console.log(formatDriftReport(report))
+    }
+    if (hasDrift(report)) {
+      throw new GenerationDriftError(report)
     }
     return results
-  } finally {
-    if (db) {
-      await db.destroy()
+  }
+
+  if (config.dryRun) {
+    return results
+  }
+
+  for (const [filePath, content] of Object.entries(results)) {
+    const fullPath = path.resolve(filePath)
+    await ensureDir(path.dirname(fullPath))
+    await writeFile(fullPath, content)
+
+    if (!config.silent) {
+      console.log(`Created: ${filePath}`)
     }
   }
+
+  if (config.clean) {
+    await cleanStaleFiles(
+      results,
+      config.destinations,
+      config.silent,
+      config.partial !== undefined,
+    )
+  }
+  return results
 }
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, type Config } from '../main.js'
+
+describe('arktype destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-arktype-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT '@arktype(string.email)',
+  \`nickname\` varchar(50) DEFAULT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`balance\` decimal(10,2) NOT NULL,
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE VIEW \`active_users\` AS SELECT id, email FROM user_accounts;
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateArkType = async (options: Partial<Config> = {}) =>
+    generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'arktype' }],
+      dryRun: true,
+      ...options,
+    })
+
+  it('should generate string definitions for the four operation variants', async () => {
+    const content = (await generateArkType())['user_accounts.arktype.ts']
+
+    expect(content).toContain("import { type } from 'arktype';")
+    expect(content).toContain(`export const user_accounts = type({
+  active: 'boolean = true',
+  balance: 'string > 0',
+  'created_at?': 'Date',
+  email: 'string',
+  'id?': 'number',
+  nickname: 'string | null',
+  role: "'admin' | 'user' = 'user'",
+})`)
+    expect(content).toContain(`export const insertable_user_accounts = type({
+  active: 'boolean = true',
+  balance: 'string > 0',
+  email: 'string',
+  'id?': 'number',
+  nickname: 'string | null',
+  role: "'admin' | 'user' = 'user'",
+})`)
+    expect(content).toContain(`export const updateable_user_accounts = type({
+  active: 'boolean = true',
+  'balance?': 'string > 0',
+  'email?': 'string',
+  'id?': 'number',
+  nickname: 'string | null',
+  role: "'admin' | 'user' = 'user'",
+})`)
+    expect(content).toContain(`export const selectable_user_accounts = type({
+  active: 'boolean',
+  balance: 'string',
+  'created_at?': 'Date',
+  email: 'string',
+  'id?': 'number',
+  nickname: 'string | null',
+  role: "'admin' | 'user'",
+})`)
+    expect(content).toContain('export type UserAccountsType = typeof user_accounts.infer')
+    expect(content).toContain(
+      'export type SelectableUserAccountsType = typeof selectable_user_accounts.infer',
+    )
+  })
+
+  it('should generate read-only view definitions', async () => {
+    const result = await generateArkType({ includeViews: true })
+
+    expect(result['active_users.arktype.ts']).toContain(
+      'export const active_users_view = type({',
+    )
+    expect(result['active_users.arktype.ts']).toContain(
+      'export type ActiveUsersViewType = typeof active_users_view.infer',
+    )
+  })
+
+  it('should apply @arktype magic comments, overrideTypes and overrideColumns', async () => {
+    const content = (
+      await generateArkType({
+        magicComments: true,
+        overrideTypes: { arktype: { 'decimal(10,2)': 'string.numeric' } },
+        overrideColumns: { arktype: { user_accounts: { nickname: 'string <= 50' } } },
+      })
+    )['user_accounts.arktype.ts']
+
+    expect(content).toContain("  email: 'string.email',")
+    expect(content).toContain("  balance: 'string.numeric',")
+    expect(content).toContain("  nickname: 'string <= 50 | null',")
+    expect(content).toMatch(
+      /updateable_user_accounts = type\(\{[^}]*balance: 'string\.numeric \| null'/,
+    )
+  })
+})
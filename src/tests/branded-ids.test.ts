@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+
+describe('brandedIds destination option', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-branded-ids-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`profiles\` (
+  \`user_id\` int NOT NULL,
+  \`bio\` text,
+  PRIMARY KEY (\`user_id\`),
+  CONSTRAINT \`profiles_user_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`)
+);
+
+CREATE TABLE \`orders\` (
+  \`id\` char(36) NOT NULL,
+  \`user_id\` int DEFAULT NULL,
+  \`profile_id\` int NOT NULL,
+  PRIMARY KEY (\`id\`),
+  CONSTRAINT \`orders_user_fk\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`),
+  CONSTRAINT \`orders_profile_fk\` FOREIGN KEY (\`profile_id\`) REFERENCES \`profiles\` (\`user_id\`)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should declare branded Zod schemas and reuse them for foreign keys', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'zod', brandedIds: true }],
+      inflection: 'singular',
+      dryRun: true,
+    })
+
+    expect(result['ids.ts']).toBe(`import { z } from 'zod';
+
+export const OrderId = z.string().brand<'OrderId'>()
+export type OrderId = z.infer<typeof OrderId>
+
+export const UserId = z.number().brand<'UserId'>()
+export type UserId = z.infer<typeof UserId>
+`)
+    expect(result['users.zod.ts']).toContain("import { UserId } from './ids';\n")
+    expect(result['users.zod.ts']).toContain('  id: UserId.optional(),\n')
+    // Foreign keys reuse the brand of the referenced key, following chains of foreign keys
+    expect(result['orders.zod.ts']).toContain("import { OrderId, UserId } from './ids';\n")
+    expect(result['orders.zod.ts']).toContain(`export const selectable_orders = z.object({
+  id: OrderId,
+  profile_id: UserId,
+  user_id: UserId.nullable(),
+})`)
+    expect(result['profiles.zod.ts']).toContain('  user_id: UserId,\n')
+    expect(result['profiles.zod.ts']).not.toContain('ProfileUserId')
+  })
+
+  it('should declare branded TypeScript types in ids.ts and in the Kysely file', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [
+        { type: 'ts', brandedIds: true, folder: 'ts' },
+        { type: 'kysely', brandedIds: true },
+      ],
+      inflection: 'singular',
+      dryRun: true,
+    })
+
+    expect(result['ts/ids.ts']).toBe(`export type OrderId = string & { readonly __brand: 'OrderId' };
+export type UserId = number & { readonly __brand: 'UserId' };
+`)
+    expect(result['ts/orders.ts.ts'].startsWith("import type { OrderId, UserId } from './ids';\n\n")).toBe(true)
+    expect(result['ts/orders.ts.ts']).toContain('  user_id: UserId | null;\n')
+
+    expect(result['db.ts']).toContain(`// Branded ID types
+export type OrderId = string & { readonly __brand: 'OrderId' };
+export type UserId = number & { readonly __brand: 'UserId' };
+`)
+    expect(result['db.ts']).toContain('  id: Generated<UserId>;\n')
+    expect(result['db.ts']).toContain('  user_id: UserId | null;\n')
+  })
+
+  it('should not declare enums for branded keys with enumType enum', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts', brandedIds: true, enumType: 'enum' }],
+      inflection: 'singular',
+      dryRun: true,
+    })
+
+    for (const fileName of ['users.ts.ts', 'profiles.ts.ts', 'orders.ts.ts']) {
+      expect(result[fileName]).not.toContain('export enum')
+    }
+    expect(result['users.ts.ts']).toContain("import type { UserId } from './ids';\n")
+    expect(result['users.ts.ts']).toContain('  id: UserId;\n')
+  })
+
+  it('should leave IDs unbranded by default and keep overrides', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts' }, { type: 'zod', brandedIds: true }],
+      overrideColumns: { zod: { orders: { user_id: 'z.number().int()' } } },
+      dryRun: true,
+    })
+
+    expect(result['ids.ts']).toBeDefined()
+    expect(result['orders.ts.ts']).not.toContain('./ids')
+    expect(result['orders.ts.ts']).toContain('  user_id: number | null;\n')
+    expect(result['orders.zod.ts']).toContain("import { OrdersId, UsersId } from './ids';\n")
+    expect(result['orders.zod.ts']).toContain('  user_id: z.number().int().nullable(),\n')
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, GenerationDriftError, type Config } from '../main.js'
+import { createUnifiedDiff } from '../utils/diff.js'
+
+describe('check mode', () => {
+  let tempDir: string
+  let outputFolder: string
+  let config: Config
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-check-test-'))
+    outputFolder = join(tempDir, 'output')
+    writeFileSync(
+      join(tempDir, 'schema.sql'),
+      `
+CREATE TABLE \`users\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`name\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`posts\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`title\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+`,
+    )
+    config = {
+      origin: { type: 'sql', path: join(tempDir, 'schema.sql'), dialect: 'mysql' },
+      destinations: [{ type: 'ts', folder: outputFolder }],
+      silent: true,
+    }
+    await generate(config)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should pass when files are up to date', async () => {
+    const results = await generate({ ...config, check: true })
+    expect(results[join(outputFolder, 'users.ts.ts')]).toBeDefined()
+  })
+
+  it('should report added and changed files without writing', async () => {
+    const usersPath = join(outputFolder, 'users.ts.ts')
+    const original = readFileSync(usersPath, 'utf-8')
+    writeFileSync(usersPath, original.replace('name: string;', 'name: number;'))
+    // Without a clean manifest, files named like generated output may be hand-written
+    writeFileSync(join(outputFolder, 'helpers.ts.ts'), 'export interface Helpers {}\n')
+    rmSync(join(outputFolder, 'posts.ts.ts'))
+
+    const error = await generate({ ...config, check: true }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(GenerationDriftError)
+    const { report } = error as GenerationDriftError
+    expect(report.added).toEqual([join(outputFolder, 'posts.ts.ts')])
+    expect(report.changed).toEqual([usersPath])
+    expect(report.missing).toEqual([])
+    expect(report.diffs[usersPath]).toContain('-  name: number;')
+    expect(report.diffs[usersPath]).toContain('+  name: string;')
+
+    // Nothing is written in check mode
+    expect(readFileSync(usersPath, 'utf-8')).toContain('name: number;')
+  })
+
+  it('should print the report unless silent', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    rmSync(join(outputFolder, 'posts.ts.ts'))
+
+    await expect(generate({ ...config, check: true, silent: false })).rejects.toThrow(
+      'Generated files are out of date',
+    )
+    expect(log.mock.calls[0][0]).toContain(`Added: ${join(outputFolder, 'posts.ts.ts')}`)
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  it('should produce hunks with context', () => {
+    const oldContent = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n'
+    const newContent = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n'
+
+    expect(createUnifiedDiff('file.ts', oldContent, newContent)).toBe(
+      '--- a/file.ts\n+++ b/file.ts\n@@ -2,7 +2,7 @@\n b\n c\n d\n-e\n+E\n f\n g\n h\n',
+    )
+  })
+
+  it('should diff new and removed files against /dev/null', () => {
+    expect(createUnifiedDiff('new.ts', null, 'x\ny\n')).toBe(
+      '--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+x\n+y\n',
+    )
+    expect(createUnifiedDiff('old.ts', 'x\n', null)).toBe(
+      '--- a/old.ts\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-x\n',
+    )
+  })
+
+  it('should return an empty string for identical content', () => {
+    expect(createUnifiedDiff('same.ts', 'x\n', 'x\n')).toBe('')
+  })
+})
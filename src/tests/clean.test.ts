@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync, existsSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, GenerationDriftError, type Config } from '../main.js'
+
+const usersTable = `
+CREATE TABLE \`users\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`name\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+`
+
+const postsTable = `
+CREATE TABLE \`posts\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`title\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+`
+
+describe('clean option', () => {
+  let tempDir: string
+  let outputFolder: string
+  let config: Config
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-clean-test-'))
+    outputFolder = join(tempDir, 'output')
+    writeFileSync(join(tempDir, 'schema.sql'), usersTable + postsTable)
+    config = {
+      origin: { type: 'sql', path: join(tempDir, 'schema.sql'), dialect: 'mysql' },
+      destinations: [
+        { type: 'zod', folder: outputFolder },
+        { type: 'kysely', outFile: join(outputFolder, 'db.ts') },
+      ],
+      silent: true,
+      clean: true,
+    }
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should record generated files in a manifest', async () => {
+    await generate(config)
+
+    const manifest = JSON.parse(readFileSync(join(outputFolder, '.mutano-manifest.json'), 'utf-8'))
+    expect(manifest.files).toEqual(['db.ts', 'posts.zod.ts', 'users.zod.ts'])
+  })
+
+  it('should delete files of dropped and ignored tables', async () => {
+    await generate(config)
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(true)
+
+    await generate({ ...config, ignore: ['posts'] })
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(false)
+    expect(existsSync(join(outputFolder, 'users.zod.ts'))).toBe(true)
+
+    writeFileSync(join(tempDir, 'schema.sql'), postsTable)
+    await generate(config)
+    expect(existsSync(join(outputFolder, 'users.zod.ts'))).toBe(false)
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(true)
+  })
+
+  it('should never touch files that are not in the manifest', async () => {
+    await generate(config)
+    writeFileSync(join(outputFolder, 'helpers.zod.ts'), '// hand-written\n')
+
+    await generate({ ...config, ignore: ['posts'] })
+    expect(existsSync(join(outputFolder, 'helpers.zod.ts'))).toBe(true)
+  })
+
+  it('should not delete anything without clean or in dry run', async () => {
+    await generate(config)
+
+    await generate({ ...config, ignore: ['posts'], clean: false })
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(true)
+
+    await generate({ ...config, ignore: ['posts'], dryRun: true })
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(true)
+  })
+
+  it('should report manifest files as missing in check mode', async () => {
+    await generate({ ...config, destinations: [{ type: 'zod', folder: outputFolder, suffix: '' }] })
+
+    const error = await generate({
+      ...config,
+      destinations: [{ type: 'zod', folder: outputFolder, suffix: '' }],
+      ignore: ['posts'],
+      check: true,
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(GenerationDriftError)
+    expect((error as GenerationDriftError).report.missing).toEqual([join(outputFolder, 'posts.ts')])
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync, existsSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { runCli, parseCliArgs } from '../cli.js'
+import { findConfigFile, validateConfig } from '../utils/config-loader.js'
+
+const sqlContent = `
+CREATE TABLE \`users\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`name\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`posts\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`title\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+`
+
+describe('mutano CLI', () => {
+  let tempDir: string
+  let outputFolder: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-cli-test-'))
+    outputFolder = join(tempDir, 'output')
+    writeFileSync(join(tempDir, 'schema.sql'), sqlContent)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const writeJsonConfig = (fileName = 'mutano.config.json', options: Record<string, unknown> = {}) => {
+    writeFileSync(
+      join(tempDir, fileName),
+      JSON.stringify({
+        origin: { type: 'sql', path: join(tempDir, 'schema.sql'), dialect: 'mysql' },
+        destinations: [
+          { type: 'zod', folder: outputFolder },
+          { type: 'ts', folder: outputFolder },
+        ],
+        silent: true,
+        ...options,
+      }),
+    )
+  }
+
+  it('should parse repeatable options', () => {
+    const options = parseCliArgs(['--dry-run', '--only', 'zod', '--only', 'ts', '--table', 'users'])
+    expect(options.dryRun).toBe(true)
+    expect(options.only).toEqual(['zod', 'ts'])
+    expect(options.tables).toEqual(['users'])
+  })
+
+  it('should discover the config file and write files', async () => {
+    writeJsonConfig()
+    expect(findConfigFile(tempDir)).toBe(join(tempDir, 'mutano.config.json'))
+
+    const code = await runCli([], tempDir)
+
+    expect(code).toBe(0)
+    expect(existsSync(join(outputFolder, 'users.zod.ts'))).toBe(true)
+    expect(existsSync(join(outputFolder, 'posts.ts.ts'))).toBe(true)
+  })
+
+  it('should load a .mjs config passed with --config', async () => {
+    writeFileSync(
+      join(tempDir, 'custom.mjs'),
+      `export default ${JSON.stringify({
+        origin: { type: 'sql', path: join(tempDir, 'schema.sql'), dialect: 'mysql' },
+        destinations: [{ type: 'kysely', outFile: join(outputFolder, 'db.ts') }],
+        silent: true,
+      })}\n`,
+    )
+
+    const code = await runCli(['--config', 'custom.mjs'], tempDir)
+
+    expect(code).toBe(0)
+    expect(existsSync(join(outputFolder, 'db.ts'))).toBe(true)
+  })
+
+  it('should not write files with --dry-run', async () => {
+    writeJsonConfig()
+
+    const code = await runCli(['--dry-run'], tempDir)
+
+    expect(code).toBe(0)
+    expect(existsSync(outputFolder)).toBe(false)
+  })
+
+  it('should apply --only and --table overrides', async () => {
+    writeJsonConfig()
+
+    const code = await runCli(['--only', 'zod', '--table', 'users'], tempDir)
+
+    expect(code).toBe(0)
+    expect(existsSync(join(outputFolder, 'users.zod.ts'))).toBe(true)
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(false)
+    expect(existsSync(join(outputFolder, 'users.ts.ts'))).toBe(false)
+  })
+
+  it('should keep files of other tables and destinations when cleaning with --table or --only', async () => {
+    writeJsonConfig('mutano.config.json', { clean: true })
+    expect(await runCli([], tempDir)).toBe(0)
+
+    expect(await runCli(['--table', 'users'], tempDir)).toBe(0)
+    expect(await runCli(['--only', 'zod'], tempDir)).toBe(0)
+
+    for (const fileName of ['users.zod.ts', 'posts.zod.ts', 'users.ts.ts', 'posts.ts.ts']) {
+      expect(existsSync(join(outputFolder, fileName))).toBe(true)
+    }
+    const manifest = JSON.parse(readFileSync(join(outputFolder, '.mutano-manifest.json'), 'utf-8'))
+    expect(manifest.files).toEqual(['posts.ts.ts', 'posts.zod.ts', 'users.ts.ts', 'users.zod.ts'])
+
+    // A full run still deletes the files of dropped tables
+    writeFileSync(join(tempDir, 'schema.sql'), sqlContent.slice(0, sqlContent.indexOf('CREATE TABLE `posts`')))
+    expect(await runCli([], tempDir)).toBe(0)
+    expect(existsSync(join(outputFolder, 'posts.zod.ts'))).toBe(false)
+  })
+
+  it('should only check files of the tables and destinations selected with --table or --only', async () => {
+    writeJsonConfig('mutano.config.json', { clean: true })
+    expect(await runCli([], tempDir)).toBe(0)
+
+    expect(await runCli(['--check', '--table', 'users'], tempDir)).toBe(0)
+    expect(await runCli(['--check', '--only', 'zod'], tempDir)).toBe(0)
+
+    // Manifest files that are no longer generated are reported by runs that cover them
+    writeFileSync(join(tempDir, 'schema.sql'), sqlContent.slice(0, sqlContent.indexOf('CREATE TABLE `posts`')))
+    expect(await runCli(['--check', '--table', 'users'], tempDir)).toBe(0)
+    expect(await runCli(['--check', '--only', 'zod'], tempDir)).toBe(1)
+  })
+
+  it('should exit non-zero when --only matches no destination', async () => {
+    writeJsonConfig()
+
+    expect(await runCli(['--only', 'kysely'], tempDir)).toBe(1)
+  })
+
+  it('should exit non-zero when no config file exists', async () => {
+    expect(await runCli([], tempDir)).toBe(1)
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('No config file found'))
+  })
+
+  it('should exit non-zero on unknown options', async () => {
+    expect(await runCli(['--nope'], tempDir)).toBe(1)
+  })
+
+  it('should report every validation problem', () => {
+    expect(() =>
+      validateConfig({
+        origin: { type: 'mysql', host: 'localhost' },
+        destinations: [{ type: 'yaml' }],
+        camelCase: 'yes',
+      }),
+    ).toThrowError(
+      /origin\.port[\s\S]*destinations\[0\]\.type[\s\S]*camelCase/,
+    )
+  })
+
+  it('should report every problem of a single destination', () => {
+    expect(() =>
+      validateConfig({
+        origin: { type: 'sql', path: 'schema.sql' },
+        destinations: [
+          { type: 'sql', dialect: 'oracle', columnOrder: 'random', relations: { depth: 0 } },
+        ],
+      }),
+    ).toThrowError(
+      /destinations\[0\]\.dialect[\s\S]*destinations\[0\]\.columnOrder[\s\S]*destinations\[0\]\.relations\.depth/,
+    )
+  })
+})
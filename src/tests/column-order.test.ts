@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, validateConfig } from '../main.js'
+
+describe('columnOrder option', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-column-order-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`name\` varchar(50) NOT NULL,
+  \`email\` varchar(191) NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE VIEW \`user_names\` AS SELECT \`name\`, \`email\` FROM \`users\`;
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should sort columns alphabetically by default', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts' }],
+      dryRun: true,
+    })
+
+    expect(result['users.ts.ts']).toContain(`export interface Users {
+  email: string;
+  id: number;
+  name: string;
+}`)
+  })
+
+  it('should keep the CREATE TABLE order with columnOrder ordinal', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts' }, { type: 'kysely' }],
+      columnOrder: 'ordinal',
+      includeViews: true,
+      dryRun: true,
+    })
+
+    expect(result['users.ts.ts']).toContain(`export interface Users {
+  id: number;
+  name: string;
+  email: string;
+}`)
+    expect(result['db.ts']).toContain(`export interface Users {
+  id: Generated<number>;
+  name: string;
+  email: string;
+}`)
+    expect(result['db.ts']).toContain(`export interface UserNamesView {
+  name: string | null;
+  email: string | null;
+}`)
+  })
+
+  it('should let destinations override the config column order', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [
+        { type: 'zod', columnOrder: 'ordinal' },
+        { type: 'graphql' },
+      ],
+      dryRun: true,
+    })
+
+    expect(result['users.zod.ts']).toContain(`export const selectable_users = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  email: z.string(),
+})`)
+    expect(result['schema.graphql']).toMatch(/type Users \{\n {2}email: String!\n {2}id: Int!?\n {2}name: String!\n\}/)
+  })
+
+  it('should reject unknown column orders', () => {
+    expect(() =>
+      validateConfig({
+        origin: { type: 'sql', path: 'schema.sql' },
+        destinations: [{ type: 'zod', columnOrder: 'reverse' }],
+        columnOrder: 'random',
+      }),
+    ).toThrow(/columnOrder` must be one of: alphabetical, ordinal[\s\S]*columnOrder` must be one of/)
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+
+describe('drizzle destination', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-drizzle-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should generate mysqlTable definitions with builders matching the column types', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`balance\` decimal(10,2) NOT NULL DEFAULT '0.00',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`visits\` bigint DEFAULT NULL,
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  \`updated_at\` timestamp NULL DEFAULT NULL ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`post_tags\` (
+  \`post_id\` int NOT NULL,
+  \`tag_id\` int NOT NULL,
+  PRIMARY KEY (\`post_id\`, \`tag_id\`)
+);
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'drizzle', folder: '/db' }],
+      camelCase: true,
+      dryRun: true,
+    })
+
+    expect(Object.keys(result)).toEqual(['/db/schema.ts'])
+    expect(result['/db/schema.ts']).toBe(`import { bigint, boolean, datetime, decimal, int, mysqlEnum, mysqlTable, primaryKey, timestamp, varchar } from 'drizzle-orm/mysql-core'
+
+export const postTags = mysqlTable('post_tags', {
+  postId: int('post_id').notNull(),
+  tagId: int('tag_id').notNull(),
+}, (table) => [primaryKey({ columns: [table.postId, table.tagId] })])
+
+export type PostTags = typeof postTags.$inferSelect
+export type InsertablePostTags = typeof postTags.$inferInsert
+
+export const userAccounts = mysqlTable('user_accounts', {
+  id: int('id').autoincrement().primaryKey(),
+  email: varchar('email', { length: 191 }).notNull(),
+  role: mysqlEnum('role', ['admin', 'user']).notNull().default('user'),
+  balance: decimal('balance', { precision: 10, scale: 2 }).notNull().default('0.00'),
+  active: boolean('active').notNull().default(true),
+  visits: bigint('visits', { mode: 'bigint' }),
+  createdAt: datetime('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').onUpdateNow(),
+})
+
+export type UserAccounts = typeof userAccounts.$inferSelect
+export type InsertableUserAccounts = typeof userAccounts.$inferInsert
+`)
+  })
+
+  it('should generate pgTable definitions with serial columns and SQL defaults', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE "users" (
+  "id" SERIAL PRIMARY KEY,
+  "email" VARCHAR(191) NOT NULL,
+  "active" boolean NOT NULL DEFAULT true,
+  "data" jsonb,
+  "token" uuid NOT NULL DEFAULT gen_random_uuid(),
+  "created_at" timestamp NOT NULL DEFAULT now(),
+  "nickname" text DEFAULT 'anon'
+);
+`,
+    )
+
+    const content = (
+      await generate({
+        origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+        destinations: [{ type: 'drizzle', outFile: '/db/drizzle.ts' }],
+        dryRun: true,
+      })
+    )['/db/drizzle.ts']
+
+    expect(content).toContain(`import { sql } from 'drizzle-orm'
+import { boolean, jsonb, pgTable, serial, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core'
+`)
+    expect(content).toContain(`export const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: varchar('email', { length: 191 }).notNull(),
+  active: boolean('active').notNull().default(true),
+  data: jsonb('data'),
+  token: uuid('token').notNull().default(sql\`gen_random_uuid()\`),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  nickname: text('nickname').default('anon'),
+})`)
+  })
+
+  it('should reject Prisma origins', async () => {
+    await expect(
+      generate({
+        origin: { type: 'prisma', path: join(tempDir, 'schema.prisma') },
+        destinations: [{ type: 'drizzle' }],
+        dryRun: true,
+      }),
+    ).rejects.toThrow('The drizzle destination does not support Prisma origins')
+  })
+})
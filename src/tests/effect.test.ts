@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, type Config, type Destination } from '../main.js'
+
+describe('effect destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-effect-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT '@effect(Schema.String.pipe(Schema.pattern(/@/)))',
+  \`nickname\` varchar(50) DEFAULT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`visits\` bigint NOT NULL DEFAULT '0',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`last_login\` datetime DEFAULT NULL,
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateEffect = async (destination: Partial<Destination> = {}, options: Partial<Config> = {}) =>
+    (
+      await generate({
+        origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+        destinations: [{ type: 'effect', ...destination } as Destination],
+        dryRun: true,
+        ...options,
+      })
+    )['user_accounts.effect.ts']
+
+  it('should generate Schema.Struct definitions with Schema.Type aliases', async () => {
+    const content = await generateEffect()
+
+    expect(content).toContain("import { Schema } from 'effect';")
+    expect(content).toContain(`export const insertable_user_accounts = Schema.Struct({
+  active: Schema.optionalWith(Schema.Boolean, { default: () => true }),
+  email: Schema.String,
+  id: Schema.optional(Schema.Number),
+  last_login: Schema.NullOr(Schema.DateFromSelf),
+  nickname: Schema.NullOr(Schema.String),
+  role: Schema.optionalWith(Schema.Literal('admin', 'user'), { default: () => 'user' }),
+  visits: Schema.optionalWith(Schema.BigInt, { default: () => BigInt('0') }),
+})`)
+    expect(content).toContain(`export const updateable_user_accounts = Schema.Struct({
+  active: Schema.optionalWith(Schema.Boolean, { default: () => true }),
+  email: Schema.optional(Schema.String),
+  id: Schema.optional(Schema.Number),
+  last_login: Schema.NullOr(Schema.DateFromSelf),
+  nickname: Schema.NullOr(Schema.String),
+  role: Schema.optionalWith(Schema.Literal('admin', 'user'), { default: () => 'user' }),
+  visits: Schema.optionalWith(Schema.BigInt, { default: () => BigInt('0') }),
+})`)
+    expect(content).toContain(`export const selectable_user_accounts = Schema.Struct({
+  active: Schema.Boolean,
+  created_at: Schema.optional(Schema.DateFromSelf),
+  email: Schema.String,
+  id: Schema.optional(Schema.Number),
+  last_login: Schema.NullOr(Schema.DateFromSelf),
+  nickname: Schema.NullOr(Schema.String),
+  role: Schema.Literal('admin', 'user'),
+  visits: Schema.BigInt,
+})`)
+    expect(content).toContain(
+      'export type UserAccountsType = Schema.Schema.Type<typeof user_accounts>',
+    )
+    expect(content).toContain(
+      'export type SelectableUserAccountsType = Schema.Schema.Type<typeof selectable_user_accounts>',
+    )
+  })
+
+  it('should decode dates with useDateType and apply @effect magic comments', async () => {
+    const content = await generateEffect(
+      { useDateType: true },
+      { magicComments: true },
+    )
+
+    expect(content).toContain('  last_login: Schema.NullOr(Schema.Date),\n')
+    expect(content).toContain('  created_at: Schema.optional(Schema.Date),\n')
+    expect(content).toContain('  email: Schema.String.pipe(Schema.pattern(/@/)),\n')
+    expect(content).not.toContain('Schema.DateFromSelf')
+  })
+})
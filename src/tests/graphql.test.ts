@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+import type { Config } from '../types/index.js'
+
+describe('graphql destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-graphql-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT 'Login email @graphql(EmailAddress!)',
+  \`role\` enum('admin','user','read-only') NOT NULL DEFAULT 'user',
+  \`balance\` decimal(10,2) NOT NULL,
+  \`score\` double DEFAULT NULL,
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`visits\` bigint DEFAULT NULL,
+  \`settings\` json DEFAULT NULL,
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+) COMMENT='Registered users';
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateGraphQL = async (options: Partial<Config> = {}) =>
+    generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'graphql', folder: '/graphql' }],
+      dryRun: true,
+      ...options,
+    })
+
+  it('should write scalars, enums, object types and input types to one schema file', async () => {
+    const result = await generateGraphQL()
+
+    expect(Object.keys(result)).toEqual(['/graphql/schema.graphql'])
+    expect(result['/graphql/schema.graphql']).toBe(`scalar BigInt
+scalar Decimal
+scalar DateTime
+scalar JSON
+
+enum UserAccountsRole {
+  admin
+  user
+  read_only
+}
+
+"""Registered users"""
+type UserAccounts {
+  active: Boolean!
+  balance: Decimal!
+  created_at: DateTime!
+  """Login email"""
+  email: String!
+  id: Int!
+  role: UserAccountsRole!
+  score: Float
+  settings: JSON
+  visits: BigInt
+}
+
+input InsertableUserAccounts {
+  active: Boolean
+  balance: Decimal!
+  """Login email"""
+  email: String!
+  id: Int
+  role: UserAccountsRole
+  score: Float
+  settings: JSON
+  visits: BigInt
+}
+
+input UpdateableUserAccounts {
+  active: Boolean
+  balance: Decimal
+  """Login email"""
+  email: String
+  id: Int
+  role: UserAccountsRole
+  score: Float
+  settings: JSON
+  visits: BigInt
+}
+`)
+  })
+
+  it('should apply @graphql magic comments, camelCase and inflection', async () => {
+    const content = (
+      await generateGraphQL({ magicComments: true, camelCase: true, inflection: 'singular' })
+    )['/graphql/schema.graphql']
+
+    expect(content).toContain('enum UserAccountRole {')
+    expect(content).toContain('type UserAccount {')
+    expect(content).toContain('input InsertableUserAccount {')
+    expect(content).toContain('  createdAt: DateTime!\n')
+    // Magic comments replace the type as written, in every definition
+    expect(content.match(/ {2}email: EmailAddress!\n/g)).toHaveLength(3)
+  })
+
+  it('should map integers outside the signed 32-bit range to Float', async () => {
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`counters\` (
+  \`id\` int unsigned NOT NULL AUTO_INCREMENT,
+  \`hits\` mediumint unsigned NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+    const content = (await generateGraphQL())['/graphql/schema.graphql']
+
+    expect(content).toContain('  id: Float!\n')
+    expect(content).toContain('  hits: Int!\n')
+  })
+
+  it('should reject enum values that map to the same GraphQL name', async () => {
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`items\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`kind\` enum('a-b','a_b') NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+
+    await expect(generateGraphQL()).rejects.toThrow(
+      "Enum ItemsKind values 'a-b' and 'a_b' both map to the GraphQL name a_b",
+    )
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { introspect, columnToDesc } from '../main.js'
+
+describe('introspect()', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-introspect-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should build a schema model from a SQL DDL file', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`email\` varchar(191) NOT NULL COMMENT 'Login email',
+    \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+    \`created_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    \`updated_at\` datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
+    PRIMARY KEY (\`id\`)
+) ENGINE=InnoDB COMMENT='Application users';
+
+CREATE TABLE \`memberships\` (
+    \`user_id\` int NOT NULL,
+    \`team_id\` int NOT NULL,
+    \`note\` text,
+    PRIMARY KEY (\`user_id\`, \`team_id\`)
+);
+`,
+    )
+
+    const model = await introspect({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts' }],
+    })
+
+    expect(model.origin).toBe('sql')
+    expect(model.dialect).toBe('mysql')
+    expect(model.views).toEqual([])
+    expect(model.tables.map((table) => table.name)).toEqual(['memberships', 'users'])
+
+    const [memberships, users] = model.tables
+    expect(memberships.primaryKey).toEqual(['user_id', 'team_id'])
+    expect(users.kind).toBe('table')
+    expect(users.comment).toBe('Application users')
+    expect(users.primaryKey).toEqual(['id'])
+    expect(users.columns.map((column) => column.name)).toEqual([
+      'id',
+      'email',
+      'role',
+      'created_at',
+      'updated_at',
+    ])
+
+    expect(users.columns[0]).toMatchObject({ autoIncrement: true, primaryKey: true, nullable: false })
+    expect(users.columns[1]).toMatchObject({
+      type: 'varchar(191)',
+      dataType: 'varchar',
+      comment: 'Login email',
+      default: null,
+    })
+    expect(users.columns[2]).toMatchObject({ enumValues: ['admin', 'user'], default: 'user' })
+    expect(users.columns[3]).toMatchObject({ defaultGenerated: true, onUpdate: false })
+    expect(users.columns[4]).toMatchObject({ defaultGenerated: true, onUpdate: true })
+    expect(memberships.columns[2]).toMatchObject({ nullable: true, primaryKey: false })
+
+    // The model is plain data
+    expect(JSON.parse(JSON.stringify(model))).toEqual(model)
+  })
+
+  it('should build a schema model from a Prisma schema', async () => {
+    const schemaPath = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      schemaPath,
+      `
+datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+enum Role {
+  ADMIN
+  USER
+}
+
+model User {
+  id        String   @id @default(uuid())
+  role      Role     @default(USER)
+  nickname  String?
+  createdAt DateTime @default(now())
+  updatedAt DateTime @updatedAt
+  posts     Post[]
+}
+
+model Post {
+  userId Int
+  slug   String
+  @@id([userId, slug])
+}
+`,
+    )
+
+    const model = await introspect({
+      origin: { type: 'prisma', path: schemaPath },
+      destinations: [{ type: 'ts' }],
+    })
+
+    expect(model.dialect).toBe('postgres')
+    expect(model.enums).toEqual([{ name: 'Role', values: ['ADMIN', 'USER'] }])
+
+    const post = model.tables.find((table) => table.name === 'Post')!
+    expect(post.primaryKey).toEqual(['userId', 'slug'])
+
+    const user = model.tables.find((table) => table.name === 'User')!
+    expect(user.primaryKey).toEqual(['id'])
+    expect(user.columns.map((column) => column.name)).toEqual([
+      'id',
+      'role',
+      'nickname',
+      'createdAt',
+      'updatedAt',
+    ])
+    expect(user.columns[0]).toMatchObject({ defaultGenerated: true, autoIncrement: false })
+    expect(user.columns[1]).toMatchObject({ enumName: 'Role', enumValues: ['ADMIN', 'USER'] })
+    expect(user.columns[2].nullable).toBe(true)
+    expect(user.columns[4]).toMatchObject({ defaultGenerated: true, onUpdate: true })
+  })
+
+  it('should convert model columns back to column descriptions', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `CREATE TABLE items (
+  id int NOT NULL AUTO_INCREMENT,
+  price decimal(10,2) DEFAULT NULL,
+  PRIMARY KEY (id)
+);`,
+    )
+
+    const model = await introspect({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts' }],
+    })
+
+    expect(model.tables[0].columns.map(columnToDesc)).toEqual([
+      {
+        Field: 'id',
+        Default: null,
+        Extra: 'auto_increment',
+        Null: 'NO',
+        Type: 'int',
+        DataType: 'int',
+        Comment: '',
+        Key: 'PRI',
+      },
+      {
+        Field: 'price',
+        Default: null,
+        Extra: '',
+        Null: 'YES',
+        Type: 'decimal(10,2)',
+        DataType: 'decimal',
+        Comment: '',
+        Key: '',
+      },
+    ])
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import knex from 'knex'
+import { createPrismaSchemaBuilder } from '@mrleebo/prisma-ast'
+import { generate } from '../main.js'
+import { introspectEntities } from '../database/introspection.js'
+
+vi.mock('@mrleebo/prisma-ast', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@mrleebo/prisma-ast')>()
+  return { ...actual, createPrismaSchemaBuilder: vi.fn(actual.createPrismaSchemaBuilder) }
+})
+
+describe('introspection phase', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-introspection-test-'))
+    vi.mocked(createPrismaSchemaBuilder).mockClear()
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should parse the Prisma schema once for all models and destinations', async () => {
+    const schemaPath = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      schemaPath,
+      `
+model User {
+  id    Int    @id @default(autoincrement())
+  email String
+}
+
+model Post {
+  id    Int    @id @default(autoincrement())
+  title String
+}
+
+model Comment {
+  id   Int    @id @default(autoincrement())
+  body String
+}
+`,
+    )
+
+    const results = await generate({
+      origin: { type: 'prisma', path: schemaPath },
+      destinations: [{ type: 'zod' }, { type: 'ts' }, { type: 'kysely' }],
+      dryRun: true,
+    })
+
+    expect(Object.keys(results)).toHaveLength(7)
+    expect(createPrismaSchemaBuilder).toHaveBeenCalledTimes(1)
+  })
+
+  it('should read every SQLite table and view in one pass, keeping column order', async () => {
+    const dbPath = join(tempDir, 'test.db')
+    const db = knex({ client: 'sqlite3', connection: { filename: dbPath }, useNullAsDefault: true })
+    await db.schema.createTable('users', (table) => {
+      table.increments('id').primary()
+      table.text('name').notNullable()
+      table.text('bio')
+    })
+    await db.schema.createTable('posts', (table) => {
+      table.increments('id').primary()
+      table.integer('user_id').notNullable()
+      table.text('title').notNullable()
+    })
+    await db.raw('CREATE VIEW user_names AS SELECT id, name FROM users')
+    await db.destroy()
+
+    const { entities, describes } = await introspectEntities({
+      origin: { type: 'sqlite', path: dbPath },
+      destinations: [{ type: 'ts' }],
+      includeViews: true,
+      ignore: ['posts'],
+    })
+
+    expect(entities).toEqual([
+      { name: 'user_names', type: 'view' },
+      { name: 'users', type: 'table' },
+    ])
+    expect(describes.has('posts')).toBe(false)
+    expect(describes.get('users')!.map((desc) => desc.Field)).toEqual(['id', 'name', 'bio'])
+    expect(describes.get('users')![0]).toMatchObject({ Extra: 'PRIMARY KEY', Null: 'NO' })
+    expect(describes.get('user_names')!.map((desc) => desc.Field)).toEqual(['id', 'name'])
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+
+describe('jsonschema destination', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-jsonschema-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should write a draft 2020-12 document with selectable, insertable and updateable shapes', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT 'Login email',
+  \`nickname\` varchar(50) DEFAULT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`status\` enum('active','banned') DEFAULT NULL,
+  \`balance\` decimal(10,2) NOT NULL,
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`settings\` json DEFAULT NULL,
+  \`score\` double NOT NULL,
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'jsonschema', folder: '/schemas' }],
+      dryRun: true,
+    })
+
+    expect(Object.keys(result)).toEqual(['/schemas/users.schema.json'])
+    const document = JSON.parse(result['/schemas/users.schema.json'])
+
+    expect(document.$schema).toBe('https://json-schema.org/draft/2020-12/schema')
+    expect(document.title).toBe('Users')
+    expect(document.$ref).toBe('#/$defs/SelectableUsers')
+    expect(Object.keys(document.$defs)).toEqual([
+      'SelectableUsers',
+      'InsertableUsers',
+      'UpdateableUsers',
+    ])
+
+    const selectable = document.$defs.SelectableUsers
+    expect(selectable.type).toBe('object')
+    expect(selectable.additionalProperties).toBe(false)
+    expect(selectable.properties).toEqual({
+      active: { type: 'boolean' },
+      balance: { type: 'string' },
+      created_at: { type: 'string', format: 'date-time' },
+      email: { type: 'string', maxLength: 191, description: 'Login email' },
+      id: { type: 'integer' },
+      nickname: { type: ['string', 'null'], maxLength: 50 },
+      role: { enum: ['admin', 'user'] },
+      score: { type: 'number' },
+      settings: {},
+      status: { enum: ['active', 'banned', null] },
+    })
+    expect(selectable.required).toEqual(Object.keys(selectable.properties))
+
+    const insertable = document.$defs.InsertableUsers
+    expect(insertable.properties.created_at).toBeUndefined()
+    expect(insertable.required).toEqual(['balance', 'email', 'score'])
+
+    const updateable = document.$defs.UpdateableUsers
+    expect(updateable.properties.created_at).toBeUndefined()
+    expect(updateable.required).toEqual([])
+  })
+
+  it('should include Prisma enums and write view documents', async () => {
+    const schemaPath = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      schemaPath,
+      `
+enum Role {
+  ADMIN
+  USER
+}
+
+model User {
+  id   Int     @id @default(autoincrement())
+  role Role?
+}
+
+view UserSummary {
+  id   Int @unique
+  name String
+}
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'prisma', path: schemaPath },
+      destinations: [{ type: 'jsonschema', suffix: 'json-schema' }],
+      includeViews: true,
+      camelCase: true,
+      dryRun: true,
+    })
+
+    const user = JSON.parse(result['User.json-schema.json'])
+    expect(user.$defs.SelectableUser.properties.role).toEqual({ enum: ['ADMIN', 'USER', null] })
+    expect(user.$defs.InsertableUser.required).toEqual([])
+
+    const view = JSON.parse(result['UserSummary.json-schema.json'])
+    expect(view.title).toBe('UserSummaryView')
+    expect(view.required).toEqual(['id', 'name'])
+    expect(view.$defs).toBeUndefined()
+  })
+})
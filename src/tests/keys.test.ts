@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import knex from 'knex'
+import { columnToDesc, introspect } from '../main.js'
+
+describe('primary key, unique and foreign key metadata', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-keys-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should read inline and table-level keys from MySQL DDL files', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  \`org_id\` int NOT NULL,
+  \`code\` varchar(20) NOT NULL COMMENT 'Not UNIQUE by itself',
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`users_email_key\` (\`email\`),
+  UNIQUE KEY \`users_org_code\` (\`org_id\`, \`code\`(10)),
+  KEY \`users_org_idx\` (\`org_id\`)
+);
+
+CREATE TABLE \`posts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`author_id\` int NOT NULL,
+  \`slug\` varchar(100) NOT NULL UNIQUE,
+  PRIMARY KEY (\`id\`),
+  CONSTRAINT \`posts_author_fk\` FOREIGN KEY (\`author_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE
+);
+`,
+    )
+
+    const model = await introspect({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts' }],
+    })
+    const [posts, users] = model.tables
+
+    expect(users.primaryKey).toEqual(['id'])
+    expect(users.uniqueKeys).toEqual([['email'], ['org_id', 'code']])
+    expect(users.foreignKeys).toEqual([])
+    expect(users.indexes).toEqual([{ name: 'users_org_idx', columns: ['org_id'] }])
+    expect(users.columns.map((column) => column.unique)).toEqual([false, true, false, false])
+
+    expect(posts.uniqueKeys).toEqual([['slug']])
+    expect(posts.foreignKeys).toEqual([
+      {
+        name: 'posts_author_fk',
+        columns: ['author_id'],
+        referencedTable: 'users',
+        referencedColumns: ['id'],
+      },
+    ])
+    expect(posts.columns[1].references).toEqual({ table: 'users', column: 'id' })
+    expect(columnToDesc(posts.columns[1])).toMatchObject({
+      Key: '',
+      References: { table: 'users', column: 'id' },
+    })
+    expect(columnToDesc(posts.columns[2]).Key).toBe('UNI')
+  })
+
+  it('should read pg_dump style ALTER TABLE keys and REFERENCES without columns', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE public.teams (
+    id integer NOT NULL,
+    name text NOT NULL
+);
+
+CREATE TABLE public.members (
+    team_id integer NOT NULL REFERENCES teams,
+    user_name text NOT NULL,
+    mentor_team integer,
+    mentor_name text
+);
+
+ALTER TABLE ONLY public.teams
+    ADD CONSTRAINT teams_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.members
+    ADD CONSTRAINT members_pkey PRIMARY KEY (team_id, user_name);
+
+ALTER TABLE ONLY public.members
+    ADD CONSTRAINT members_mentor_fkey FOREIGN KEY (mentor_team, mentor_name) REFERENCES public.members(team_id, user_name);
+
+CREATE UNIQUE INDEX teams_name_key ON public.teams USING btree (name);
+`,
+    )
+
+    const model = await introspect({
+      origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+      destinations: [{ type: 'ts' }],
+    })
+    const [members, teams] = model.tables
+
+    expect(teams.primaryKey).toEqual(['id'])
+    expect(teams.uniqueKeys).toEqual([['name']])
+    expect(members.primaryKey).toEqual(['team_id', 'user_name'])
+    expect(members.foreignKeys).toEqual([
+      { columns: ['team_id'], referencedTable: 'teams', referencedColumns: ['id'] },
+      {
+        name: 'members_mentor_fkey',
+        columns: ['mentor_team', 'mentor_name'],
+        referencedTable: 'members',
+        referencedColumns: ['team_id', 'user_name'],
+      },
+    ])
+    // Only single-column foreign keys are marked on columns
+    expect(members.columns.map((column) => column.references)).toEqual([
+      { table: 'teams', column: 'id' },
+      undefined,
+      undefined,
+      undefined,
+    ])
+  })
+
+  it('should read @unique, @@unique and @relation from Prisma schemas', async () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+model User {
+  id    Int    @id @default(autoincrement())
+  email String @unique
+  posts Post[]
+}
+
+model Post {
+  id       Int    @id @default(autoincrement())
+  slug     String
+  authorId Int
+  author   User   @relation("authored", fields: [authorId], references: [id], onDelete: Cascade)
+
+  @@unique([authorId, slug(sort: Desc)])
+  @@index([slug])
+}
+`,
+    )
+
+    const model = await introspect({
+      origin: { type: 'prisma', path: prismaFile },
+      destinations: [{ type: 'ts' }],
+    })
+    const [post, user] = model.tables
+
+    expect(user.uniqueKeys).toEqual([['email']])
+    expect(user.columns.find((column) => column.name === 'email')?.unique).toBe(true)
+    expect(post.uniqueKeys).toEqual([['authorId', 'slug']])
+    expect(post.indexes).toEqual([{ name: 'Post_slug_idx', columns: ['slug'] }])
+    expect(post.foreignKeys).toEqual([
+      {
+        name: 'Post_authorId_fkey',
+        columns: ['authorId'],
+        referencedTable: 'User',
+        referencedColumns: ['id'],
+        relationField: 'author',
+      },
+    ])
+    expect(post.columns.find((column) => column.name === 'authorId')?.references).toEqual({
+      table: 'User',
+      column: 'id',
+    })
+  })
+
+  it('should read unique constraints, unique indexes, indexes and foreign keys from SQLite', async () => {
+    const dbPath = join(tempDir, 'keys.db')
+    const db = knex({ client: 'sqlite3', connection: { filename: dbPath }, useNullAsDefault: true })
+    await db.raw('CREATE TABLE users (id integer PRIMARY KEY, email text UNIQUE, name text)')
+    await db.raw('CREATE UNIQUE INDEX users_name ON users (name)')
+    await db.raw('CREATE INDEX users_name_email ON users (name, email)')
+    await db.raw('CREATE INDEX users_lower_name ON users (lower(name))')
+    await db.raw(
+      'CREATE TABLE posts (id integer PRIMARY KEY, user_id integer REFERENCES users, editor_id integer REFERENCES users (id))',
+    )
+    await db.destroy()
+
+    const model = await introspect({
+      origin: { type: 'sqlite', path: dbPath },
+      destinations: [{ type: 'ts' }],
+    })
+    const [posts, users] = model.tables
+
+    expect(users.uniqueKeys).toEqual(expect.arrayContaining([['email'], ['name']]))
+    expect(users.uniqueKeys).toHaveLength(2)
+    // Indexes on expressions are left out
+    expect(users.indexes).toEqual([{ name: 'users_name_email', columns: ['name', 'email'] }])
+    expect(posts.foreignKeys).toEqual(
+      expect.arrayContaining([
+        { columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'] },
+        { columns: ['editor_id'], referencedTable: 'users', referencedColumns: ['id'] },
+      ]),
+    )
+    expect(posts.columns.map((column) => column.references?.column)).toEqual([undefined, 'id', 'id'])
+  })
+})
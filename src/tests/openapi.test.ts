@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+import type { Config, Destination } from '../types/index.js'
+
+describe('openapi destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-openapi-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT 'Login email',
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`status\` enum('active','banned') DEFAULT NULL,
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`posts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`title\` varchar(200) NOT NULL,
+  \`status\` enum('active','banned') NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE VIEW \`active_users\` AS SELECT id, email FROM user_accounts;
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateOpenApi = async (destination: Partial<Destination> = {}, options: Partial<Config> = {}) =>
+    generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'openapi', ...destination } as Destination],
+      includeViews: true,
+      dryRun: true,
+      ...options,
+    })
+
+  it('should write one components document with row, insertable, updateable and view schemas', async () => {
+    const result = await generateOpenApi({ outFile: '/api/openapi.json' })
+
+    expect(Object.keys(result)).toEqual(['/api/openapi.json'])
+    const document = JSON.parse(result['/api/openapi.json'])
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toEqual({ title: 'Database schemas', version: '1.0.0' })
+    expect(Object.keys(document.components.schemas)).toEqual([
+      'Status',
+      'ActiveUsersView',
+      'Posts',
+      'InsertablePosts',
+      'UpdateablePosts',
+      'UserAccounts',
+      'InsertableUserAccounts',
+      'UpdateableUserAccounts',
+    ])
+
+    const { schemas } = document.components
+    expect(schemas.UserAccounts.required).toEqual(['created_at', 'email', 'id', 'role', 'status'])
+    expect(schemas.InsertableUserAccounts.required).toEqual(['email'])
+    expect(schemas.InsertableUserAccounts.properties).not.toHaveProperty('created_at')
+    expect(schemas.UpdateableUserAccounts.required).toEqual([])
+    expect(Object.keys(schemas.ActiveUsersView.properties)).toEqual(['email', 'id'])
+    expect(schemas.ActiveUsersView.required).toEqual(['email', 'id'])
+  })
+
+  it('should turn enums shared by several columns into $ref components', async () => {
+    const result = await generateOpenApi({ format: 'json', folder: '/api' })
+    const { schemas } = JSON.parse(result['/api/openapi.json']).components
+
+    expect(schemas.Status).toEqual({ type: 'string', enum: ['active', 'banned'] })
+    expect(schemas.Posts.properties.status).toEqual({ $ref: '#/components/schemas/Status' })
+    expect(schemas.UserAccounts.properties.status).toEqual({
+      anyOf: [{ $ref: '#/components/schemas/Status' }, { type: 'null' }],
+    })
+    // Enums used by a single column stay inline
+    expect(schemas.UserAccounts.properties.role).toEqual({ enum: ['admin', 'user'] })
+  })
+
+  it('should write YAML by default, with inflected and camelCase names', async () => {
+    const result = await generateOpenApi(
+      { folder: '/api', title: 'Blog' },
+      { inflection: 'singular', camelCase: true },
+    )
+
+    expect(Object.keys(result)).toEqual(['/api/openapi.yaml'])
+    const content = result['/api/openapi.yaml']
+    expect(content).toContain('openapi: "3.1.0"\ninfo:\n  title: Blog\n  version: "1.0.0"\n')
+    expect(content).toContain(`    InsertablePost:
+      type: object
+      properties:
+        id:
+          type: integer
+        status:
+          $ref: "#/components/schemas/Status"
+        title:
+          type: string
+          maxLength: 200
+      required:
+        - status
+        - title
+      additionalProperties: false
+`)
+    expect(content).toContain(`        createdAt:
+          type: string
+          format: date-time
+`)
+    expect(content).toContain('    ActiveUserView:\n')
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { definePlugin, generate, validateConfig } from '../main.js'
+
+describe('destination plugins', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-plugins-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE user_accounts (
+    id int NOT NULL AUTO_INCREMENT,
+    email varchar(191) NOT NULL,
+    nickname varchar(50) DEFAULT NULL,
+    role enum('admin','user') NOT NULL DEFAULT 'user',
+    PRIMARY KEY (id)
+);
+
+CREATE TABLE posts (
+    id int NOT NULL AUTO_INCREMENT,
+    title varchar(255) NOT NULL COMMENT '@ts(Title)',
+    PRIMARY KEY (id)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const repositoryPlugin = definePlugin({
+    name: 'repository',
+    header: "import { db } from './db';\n\n",
+    renderEntity: (entity, ctx) => {
+      if (entity.name === 'posts') return null
+      const typeName = ctx.typeName(entity)
+      const fields = entity.columns
+        .map((column) => `  ${ctx.fieldName(column)}: ${ctx.getType('insertable', entity, column)};`)
+        .join('\n')
+      return `export interface ${typeName}Input {\n${fields}\n}\n\nexport class ${typeName}Repository {}\n`
+    },
+    renderConsolidated: (entities, ctx) =>
+      `export const entities = [${entities.map((entity) => `'${entity.name}'`).join(', ')}] // ${ctx.destination.options?.label}\n`,
+  })
+
+  it('should render per-entity and consolidated files through a registered plugin', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [
+        {
+          type: 'custom',
+          plugin: 'repository',
+          folder: '/generated',
+          options: { label: 'all' },
+        },
+      ],
+      plugins: [repositoryPlugin],
+      camelCase: true,
+      inflection: 'singular',
+      dryRun: true,
+    })
+
+    expect(Object.keys(result).sort()).toEqual([
+      '/generated/repository.ts',
+      '/generated/user_accounts.repository.ts',
+    ])
+
+    const entityFile = result['/generated/user_accounts.repository.ts']
+    expect(entityFile).toContain("import { db } from './db';")
+    expect(entityFile).toContain('export interface UserAccountInput {')
+    expect(entityFile).toContain('  id: number;')
+    expect(entityFile).toContain('  email: string;')
+    expect(entityFile).toContain('  nickname: string | null;')
+    expect(entityFile).toContain("  role: 'admin' | 'user';")
+    expect(entityFile).toContain('export class UserAccountRepository {}')
+
+    expect(result['/generated/repository.ts']).toContain(
+      "export const entities = ['posts', 'user_accounts'] // all",
+    )
+  })
+
+  it('should resolve types for any built-in target, honoring overrides and magic comments', async () => {
+    const plugin = definePlugin({
+      name: 'fields',
+      extension: '.txt',
+      renderEntity: (entity, ctx) =>
+        entity.columns
+          .map(
+            (column) =>
+              `${column.name}=${ctx.getType('table', entity, column, 'zod')}|${ctx.getType('selectable', entity, column)}`,
+          )
+          .join('\n'),
+    })
+
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'custom', plugin: 'fields', suffix: '', header: '# generated\n' }],
+      plugins: [plugin],
+      magicComments: true,
+      overrideColumns: { ts: { user_accounts: { email: 'Email' } } },
+      dryRun: true,
+    })
+
+    expect(result['posts.txt']).toBe(
+      '# generated\nid=z.number().optional()|number\ntitle=z.string()|Title',
+    )
+    expect(result['user_accounts.txt']).toContain('email=z.string()|Email')
+  })
+
+  it('should reject destinations whose plugin is not registered', async () => {
+    await expect(
+      generate({
+        origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+        destinations: [{ type: 'custom', plugin: 'missing' }],
+        dryRun: true,
+      }),
+    ).rejects.toThrow('Unknown destination plugin: missing')
+
+    expect(() =>
+      validateConfig({
+        origin: { type: 'sql', path: sqlFile },
+        destinations: [{ type: 'custom', plugin: 'missing' }],
+        plugins: [{ name: 'repository' }],
+      }),
+    ).toThrow('`destinations[0].plugin` must name a plugin registered in `plugins`')
+  })
+})
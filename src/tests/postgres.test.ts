@@ -9,6 +9,7 @@ import {
 	generateContent,
 	getType,
 } from '../main.js'
+import { extractColumnDescriptions } from '../database/connection.js'
 
 describe('mutano with PostgreSQL (pglite)', () => {
 	const outputDir = './test-output-postgres'
@@ -210,6 +211,35 @@ describe('mutano with PostgreSQL (pglite)', () => {
 		expect(metadataColumn?.Type).toBe('jsonb')
 	})
 
+	test('should read the length, precision and scale of column types', async () => {
+		// Run the introspection queries through pglite, with knex positional bindings
+		const db = {
+			raw: (sql: string, bindings: unknown[] = []) => {
+				let position = 0
+				return pglite.query(sql.replace(/\?/g, () => `$${++position}`), bindings)
+			},
+		} as unknown as Parameters<typeof extractColumnDescriptions>[0]
+
+		const describes = await extractColumnDescriptions(db, postgresConfig, ['users'], {
+			user_status: ['active', 'inactive', 'pending'],
+		})
+		const columns = new Map(describes.get('users')!.map((desc) => [desc.Field, desc]))
+
+		expect(columns.get('name')).toMatchObject({
+			Type: 'character varying(255)',
+			DataType: 'character varying',
+			Null: 'NO',
+		})
+		expect(columns.get('score')).toMatchObject({ Type: 'numeric(3,2)', DataType: 'numeric' })
+		expect(columns.get('age')).toMatchObject({ Type: 'integer', DataType: 'integer' })
+		expect(columns.get('id')).toMatchObject({ Type: 'integer', Key: 'PRI' })
+		expect(columns.get('status')).toMatchObject({
+			Type: 'USER-DEFINED',
+			EnumName: 'user_status',
+			EnumOptions: ['active', 'inactive', 'pending'],
+		})
+	})
+
 	test('should handle PostgreSQL-specific types correctly', () => {
 		const testCases = [
 			{
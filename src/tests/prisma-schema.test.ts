@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+
+describe('prisma destination', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-prisma-schema-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should write models, enums and native types from MySQL tables', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT 'Login email',
+  \`role\` enum('admin','user','read-only') NOT NULL DEFAULT 'user',
+  \`balance\` decimal(10,2) NOT NULL DEFAULT '0.00',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`settings\` json DEFAULT NULL,
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  \`updated_at\` timestamp NULL DEFAULT NULL ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`post_tags\` (
+  \`post_id\` int NOT NULL,
+  \`tag_id\` int NOT NULL,
+  PRIMARY KEY (\`post_id\`, \`tag_id\`)
+);
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'prisma', folder: '/prisma' }],
+      dryRun: true,
+    })
+
+    expect(Object.keys(result)).toEqual(['/prisma/schema.prisma'])
+    expect(result['/prisma/schema.prisma']).toBe(`datasource db {
+  provider = "mysql"
+  url      = env("DATABASE_URL")
+}
+
+generator client {
+  provider = "prisma-client-js"
+}
+
+model post_tags {
+  post_id Int
+  tag_id  Int
+
+  @@id([post_id, tag_id])
+}
+
+model user_accounts {
+  id         Int                @id @default(autoincrement())
+  /// Login email
+  email      String             @db.VarChar(191)
+  role       user_accounts_role @default(user)
+  balance    Decimal            @default(0.00) @db.Decimal(10, 2)
+  active     Boolean            @default(true)
+  settings   Json?
+  created_at DateTime           @default(now()) @db.DateTime(0)
+  updated_at DateTime?          @updatedAt @db.Timestamp(0)
+}
+
+enum user_accounts_role {
+  admin
+  user
+  read_only @map("read-only")
+}
+`)
+  })
+
+  it('should map renamed models, fields and enums when camelCase is enabled', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE "users" (
+  "id" SERIAL PRIMARY KEY,
+  "display_name" VARCHAR(100) NOT NULL DEFAULT 'anon',
+  "created_at" timestamp NOT NULL DEFAULT now()
+);
+`,
+    )
+
+    const content = (
+      await generate({
+        origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+        destinations: [{ type: 'prisma', outFile: '/prisma/app.prisma', header: '' }],
+        camelCase: true,
+        inflection: 'singular',
+        dryRun: true,
+      })
+    )['/prisma/app.prisma']
+
+    expect(content).toBe(`model User {
+  id          Int      @id @default(autoincrement())
+  displayName String   @default("anon") @map("display_name") @db.VarChar(100)
+  createdAt   DateTime @default(now()) @map("created_at") @db.Timestamp(6)
+
+  @@map("users")
+}
+`)
+  })
+
+  it('should write composite unique keys, indexes and relations from keys', async () => {
+    // Constraint names other than the ones Prisma Migrate would give are mapped
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`tenant_id\` int NOT NULL,
+  \`email\` varchar(191) NOT NULL,
+  \`manager_id\` int DEFAULT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`users_tenant_email\` (\`tenant_id\`, \`email\`),
+  KEY \`users_manager_id_idx\` (\`manager_id\`),
+  CONSTRAINT \`users_manager_id_fkey\` FOREIGN KEY (\`manager_id\`) REFERENCES \`users\` (\`id\`)
+);
+
+CREATE TABLE \`posts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`author_id\` int NOT NULL,
+  \`editor_id\` int DEFAULT NULL,
+  \`title\` varchar(100) NOT NULL,
+  PRIMARY KEY (\`id\`),
+  KEY \`posts_title_author\` (\`title\`, \`author_id\`),
+  CONSTRAINT \`posts_author_id_fkey\` FOREIGN KEY (\`author_id\`) REFERENCES \`users\` (\`id\`),
+  CONSTRAINT \`posts_editor_id_fkey\` FOREIGN KEY (\`editor_id\`) REFERENCES \`users\` (\`id\`)
+);
+
+CREATE TABLE \`profiles\` (
+  \`user_id\` int NOT NULL,
+  \`bio\` text,
+  PRIMARY KEY (\`user_id\`),
+  CONSTRAINT \`profiles_user_id_fkey\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`)
+);
+`,
+    )
+
+    const content = (
+      await generate({
+        origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+        destinations: [{ type: 'prisma', folder: '/prisma', header: '' }],
+        dryRun: true,
+      })
+    )['/prisma/schema.prisma']
+
+    expect(content).toContain(`model posts {
+  id        Int    @id @default(autoincrement())
+  author_id Int
+  editor_id Int?
+  title     String @db.VarChar(100)
+  author    users  @relation("posts_author_idTousers", fields: [author_id], references: [id])
+  editor    users? @relation("posts_editor_idTousers", fields: [editor_id], references: [id])
+
+  @@index([title, author_id], map: "posts_title_author")
+}
+`)
+    // The primary key of profiles references users: one profile per user at most
+    expect(content).toContain(`model profiles {
+  user_id Int     @id
+  bio     String? @db.Text
+  user    users   @relation(fields: [user_id], references: [id])
+}
+`)
+    expect(content).toContain(`model users {
+  id                 Int       @id @default(autoincrement())
+  tenant_id          Int
+  email              String    @db.VarChar(191)
+  manager_id         Int?
+  manager            users?    @relation("users_manager_idTousers", fields: [manager_id], references: [id])
+  posts              posts[]   @relation("posts_author_idTousers")
+  posts_by_editor_id posts[]   @relation("posts_editor_idTousers")
+  profile            profiles?
+  users              users[]   @relation("users_manager_idTousers")
+
+  @@unique([tenant_id, email])
+  @@index([manager_id])
+}
+`)
+  })
+})
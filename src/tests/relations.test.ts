@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, introspect, validateConfig } from '../main.js'
+
+describe('relations option', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-relations-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE users (
+  id int PRIMARY KEY,
+  name varchar(50) NOT NULL
+);
+
+CREATE TABLE profiles (
+  user_id int NOT NULL PRIMARY KEY REFERENCES users (id),
+  bio text
+);
+
+CREATE TABLE posts (
+  id int PRIMARY KEY,
+  author_id int NOT NULL REFERENCES users (id),
+  title text NOT NULL
+);
+
+CREATE TABLE comments (
+  id int PRIMARY KEY,
+  post_id int NOT NULL REFERENCES posts (id),
+  body text NOT NULL
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should derive relations in both directions from foreign keys', async () => {
+    const model = await introspect({
+      origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+      destinations: [],
+    })
+    const relations = Object.fromEntries(
+      model.tables.map((table) => [
+        table.name,
+        table.relations.map((relation) => [
+          relation.name,
+          relation.table,
+          relation.cardinality,
+          relation.nullable,
+        ]),
+      ]),
+    )
+
+    expect(relations).toEqual({
+      comments: [['post', 'posts', 'one', false]],
+      posts: [
+        ['author', 'users', 'one', false],
+        ['comments', 'comments', 'many', false],
+      ],
+      profiles: [['user', 'users', 'one', false]],
+      users: [
+        ['posts', 'posts', 'many', false],
+        // The foreign key of profiles is its primary key, so a user has one profile at most
+        ['profile', 'profiles', 'one', true],
+      ],
+    })
+  })
+
+  it('should write selectable Zod schemas extended with their relations', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+      destinations: [{ type: 'zod', folder: 'schemas', relations: true }],
+      inflection: 'singular',
+      dryRun: true,
+    })
+    const content = result['schemas/relations.ts']
+
+    expect(content).toContain(`import { z } from 'zod';
+
+import { selectable_comments } from './comments.zod';
+import { selectable_posts } from './posts.zod';
+import { selectable_profiles } from './profiles.zod';
+import { selectable_users } from './users.zod';
+`)
+    expect(content).toContain(`export const selectable_users_with_posts_and_profile = selectable_users.extend({
+  posts: z.array(selectable_posts),
+  profile: selectable_profiles.nullable(),
+})
+export type UserWithPostsAndProfileType = z.infer<typeof selectable_users_with_posts_and_profile>
+`)
+    expect(content).toContain('export const selectable_comments_with_post = selectable_comments.extend({\n')
+    // Entity files are left unchanged
+    expect(result['schemas/users.zod.ts']).not.toContain('posts')
+  })
+
+  it('should nest included relations up to the configured depth in TypeScript types', async () => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+      destinations: [
+        {
+          type: 'ts',
+          relations: { depth: 2, include: { users: ['posts'], posts: ['author', 'comments'] } },
+        },
+      ],
+      inflection: 'singular',
+      camelCase: true,
+      dryRun: true,
+    })
+    const content = result['relations.ts']
+
+    // The posts of a post's author are not nested, as they lead back to the post
+    expect(content).toBe(`import type { SelectableComment } from './comments.ts';
+import type { SelectablePost } from './posts.ts';
+import type { SelectableUser } from './users.ts';
+
+export type PostWithAuthorAndComments = SelectablePost & {
+  author: SelectableUser;
+  comments: SelectableComment[];
+};
+
+export type UserWithPosts = SelectableUser & {
+  posts: (SelectablePost & {
+    comments: SelectableComment[];
+  })[];
+};
+`)
+  })
+
+  it('should name relations after Prisma relation fields', async () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+model User {
+  id      Int    @id
+  written Post[] @relation("written")
+  edited  Post[] @relation(name: "edited")
+}
+
+model Post {
+  id       Int   @id
+  writerId Int
+  writer   User  @relation("written", fields: [writerId], references: [id])
+  editorId Int?
+  editor   User? @relation(name: "edited", fields: [editorId], references: [id])
+}
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'prisma', path: prismaFile },
+      destinations: [{ type: 'zod', relations: { include: { User: ['written'], Post: ['editor'] } } }],
+      dryRun: true,
+    })
+    const content = result['relations.ts']
+
+    expect(content).toContain(`export const selectable_post_with_editor = selectable_post.extend({
+  editor: selectable_user.nullable(),
+})
+export type PostWithEditorType = z.infer<typeof selectable_post_with_editor>
+`)
+    expect(content).toContain(`export const selectable_user_with_written = selectable_user.extend({
+  written: z.array(selectable_post),
+})
+`)
+    expect(content).toContain("import { selectable_user } from './User.zod';\n")
+  })
+
+  it('should read Prisma back relations without @relation as relations, not columns', async () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+model User {
+  id      Int      @id
+  posts   Post[]
+  profile Profile?
+}
+
+model Profile {
+  id     Int  @id
+  userId Int  @unique
+  user   User @relation(fields: [userId], references: [id])
+}
+
+model Post {
+  id       Int  @id
+  authorId Int
+  author   User @relation(fields: [authorId], references: [id])
+}
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'prisma', path: prismaFile },
+      destinations: [{ type: 'ts', relations: true }, { type: 'sql', dialect: 'postgres' }],
+      dryRun: true,
+    })
+
+    expect(result['User.ts.ts']).toContain('export interface User {\n  id: number;\n}\n')
+    expect(result['schema.sql']).not.toContain('"profile"')
+    expect(result['relations.ts']).toContain(`export type UserWithPostsAndProfile = SelectableUser & {
+  posts: SelectablePost[];
+  profile: SelectableProfile | null;
+};
+`)
+  })
+
+  it('should reject relation depths that are not positive integers', () => {
+    expect(() =>
+      validateConfig({
+        origin: { type: 'sql', path: 'schema.sql' },
+        destinations: [{ type: 'ts', relations: { depth: 0 } }],
+      }),
+    ).toThrow('`destinations[0].relations.depth` must be a positive integer')
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { type Config, type Desc, generate, getType } from '../main.js'
+
+describe('sharedEnums destination option', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-shared-enums-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const writePrismaSchema = () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+enum user_role {
+  admin
+  user
+}
+
+enum task_state {
+  todo
+  done
+}
+
+model User {
+  id   Int       @id @default(autoincrement())
+  role user_role @default(user)
+}
+
+model Tag {
+  id   Int    @id @default(autoincrement())
+  name String
+}
+`,
+    )
+    return prismaFile
+  }
+
+  it('should write Prisma enums once to enums.ts and import them where used', async () => {
+    const result = await generate({
+      origin: { type: 'prisma', path: writePrismaSchema() },
+      destinations: [
+        { type: 'zod', folder: 'zod', sharedEnums: true },
+        { type: 'ts', folder: 'ts', sharedEnums: true, enumType: 'enum' },
+      ],
+      dryRun: true,
+    })
+
+    expect(result['zod/enums.ts']).toContain(`export const UserRole = z.enum(['admin','user'])
+
+export const TaskState = z.enum(['todo','done'])
+`)
+    expect(result['zod/User.zod.ts']).toContain("import { UserRole } from './enums';\n")
+    expect(result['zod/User.zod.ts']).toContain("  role: UserRole.optional().default('user'),\n")
+    expect(result['zod/User.zod.ts']).not.toContain('z.enum(')
+    expect(result['zod/Tag.zod.ts']).not.toContain('./enums')
+
+    expect(result['ts/enums.ts']).toContain(`export enum UserRole {
+  Admin = 'admin',
+  User = 'user',
+}`)
+    expect(result['ts/enums.ts']).toContain('export enum TaskState {\n')
+    expect(result['ts/User.ts.ts'].startsWith("import type { UserRole } from './enums';\n\n")).toBe(true)
+    expect(result['ts/User.ts.ts']).toContain('  role: UserRole;\n')
+    expect(result['ts/User.ts.ts']).not.toContain('export enum')
+  })
+
+  it('should share CREATE TYPE enums from SQL files as union types', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TYPE mood AS ENUM ('happy', 'sad');
+
+CREATE TABLE people (
+  id serial PRIMARY KEY,
+  current_mood mood NOT NULL
+);
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'postgres' },
+      destinations: [{ type: 'ts', sharedEnums: true }],
+      dryRun: true,
+    })
+
+    expect(result['enums.ts']).toBe("export type Mood = 'happy' | 'sad';\n")
+    expect(result['people.ts.ts']).toContain("import type { Mood } from './enums';\n")
+    expect(result['people.ts.ts']).toContain('  current_mood: Mood;\n')
+  })
+
+  it('should reference introspected Postgres enum types by name', () => {
+    const config = {
+      origin: { type: 'postgres', host: 'localhost', port: 5432, user: 'u', password: 'p', database: 'd' },
+      destinations: [],
+    } as Config
+    const desc: Desc = {
+      Field: 'role',
+      Default: null,
+      Extra: '',
+      Null: 'YES',
+      Type: 'USER-DEFINED',
+      EnumOptions: ['admin', 'user'],
+      EnumName: 'user_role',
+      Comment: '',
+    }
+
+    expect(getType('selectable', desc, config, { type: 'zod', sharedEnums: true })).toBe(
+      'UserRole.nullable()',
+    )
+    expect(getType('selectable', desc, config, { type: 'ts' })).toBe("'admin' | 'user' | null")
+  })
+
+  it('should refuse two destinations sharing enums in the same folder', async () => {
+    await expect(
+      generate({
+        origin: { type: 'prisma', path: writePrismaSchema() },
+        destinations: [
+          { type: 'zod', sharedEnums: true },
+          { type: 'ts', sharedEnums: true },
+        ],
+        dryRun: true,
+      }),
+    ).rejects.toThrow('Cannot write shared enums to enums.ts')
+  })
+})
@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { columnToDesc, generate, introspect } from '../main.js'
+import type { Desc, Dialect } from '../types/index.js'
+
+describe('sql destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-sql-ddl-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL COMMENT '@zod(z.string().email())',
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`balance\` decimal(10,2) NOT NULL DEFAULT '0.00',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+) COMMENT='Registered users';
+
+CREATE TABLE \`post_tags\` (
+  \`post_id\` int NOT NULL,
+  \`tag_id\` int NOT NULL,
+  PRIMARY KEY (\`post_id\`, \`tag_id\`)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateDdl = async (dialect: Dialect) => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'sql', dialect, folder: '/db', columnOrder: 'ordinal' }],
+      dryRun: true,
+    })
+    expect(Object.keys(result)).toEqual(['/db/schema.sql'])
+    return result['/db/schema.sql']
+  }
+
+  it('should render postgres enum types, serial keys and COMMENT ON statements', async () => {
+    expect(await generateDdl('postgres')).toBe(`CREATE TYPE "user_accounts_role" AS ENUM ('admin', 'user');
+
+CREATE TABLE "post_tags" (
+  "post_id" integer NOT NULL,
+  "tag_id" integer NOT NULL,
+  PRIMARY KEY ("post_id", "tag_id")
+);
+
+CREATE TABLE "user_accounts" (
+  "id" serial NOT NULL PRIMARY KEY,
+  "email" varchar(191) NOT NULL,
+  "role" "user_accounts_role" NOT NULL DEFAULT 'user',
+  "balance" decimal(10,2) NOT NULL DEFAULT 0.00,
+  "active" boolean NOT NULL DEFAULT TRUE,
+  "created_at" timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+COMMENT ON TABLE "user_accounts" IS 'Registered users';
+COMMENT ON COLUMN "user_accounts"."email" IS '@zod(z.string().email())';
+`)
+  })
+
+  it('should render sqlite tables with CHECK constraints for enums and trailing comments', async () => {
+    const content = await generateDdl('sqlite')
+
+    expect(content).toContain(`-- Registered users
+CREATE TABLE "user_accounts" (
+  "id" integer NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "email" varchar(191) NOT NULL, -- @zod(z.string().email())
+  "role" text NOT NULL DEFAULT 'user' CHECK ("role" IN ('admin', 'user')),
+`)
+  })
+
+  it('should keep the origin column order unless sorted by name, leaving key order alone', async () => {
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`tags\` (
+  \`tag_id\` int NOT NULL,
+  \`post_id\` int NOT NULL,
+  \`label\` varchar(50) NOT NULL,
+  PRIMARY KEY (\`tag_id\`, \`post_id\`)
+);
+`,
+    )
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [
+        { type: 'sql', outFile: 'ordinal.sql' },
+        { type: 'sql', outFile: 'sorted.sql', columnOrder: 'alphabetical' },
+      ],
+      dryRun: true,
+    })
+
+    expect(result['sorted.sql']).toBe(`CREATE TABLE \`tags\` (
+  \`label\` varchar(50) NOT NULL,
+  \`post_id\` int NOT NULL,
+  \`tag_id\` int NOT NULL,
+  PRIMARY KEY (\`tag_id\`, \`post_id\`)
+);
+`)
+    expect(result['ordinal.sql']).toContain('  `tag_id` int NOT NULL,\n  `post_id` int NOT NULL,\n  `label`')
+  })
+
+  it('should keep unique keys, foreign keys and indexes through a round trip', async () => {
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  \`org_id\` int NOT NULL,
+  \`code\` varchar(20) NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`users_email_key\` (\`email\`),
+  UNIQUE KEY \`users_org_code\` (\`org_id\`, \`code\`),
+  KEY \`users_org_idx\` (\`org_id\`),
+  CONSTRAINT \`users_org_fk\` FOREIGN KEY (\`org_id\`) REFERENCES \`orgs\` (\`id\`)
+);
+
+CREATE TABLE \`orgs\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`name\` varchar(50) NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+    const getKeys = async (path: string, dialect: Dialect) => {
+      const model = await introspect({ origin: { type: 'sql', path, dialect }, destinations: [] })
+      return model.tables.map(({ name, uniqueKeys, foreignKeys, indexes }) => ({
+        name,
+        uniqueKeys,
+        foreignKeys,
+        indexes,
+      }))
+    }
+    const keys = await getKeys(sqlFile, 'mysql')
+
+    const mysql = await generateDdl('mysql')
+    expect(mysql).toContain(`  \`code\` varchar(20) NOT NULL,
+  UNIQUE (\`email\`),
+  UNIQUE (\`org_id\`, \`code\`)
+);
+CREATE INDEX \`users_org_idx\` ON \`users\` (\`org_id\`);
+`)
+    // Foreign keys are added once every table exists
+    expect(mysql).toMatch(
+      /\nALTER TABLE `users` ADD CONSTRAINT `users_org_fk` FOREIGN KEY \(`org_id`\) REFERENCES `orgs` \(`id`\);\n$/,
+    )
+    expect(await generateDdl('sqlite')).toContain(`  UNIQUE ("org_id", "code"),
+  CONSTRAINT "users_org_fk" FOREIGN KEY ("org_id") REFERENCES "orgs" ("id")
+);
+`)
+
+    for (const dialect of ['mysql', 'postgres', 'sqlite'] as const) {
+      const roundTripFile = join(tempDir, `${dialect}.sql`)
+      writeFileSync(roundTripFile, await generateDdl(dialect))
+      expect(await getKeys(roundTripFile, dialect)).toEqual(keys)
+    }
+  })
+
+  it('should keep Prisma native type lengths and keys, and mark what a dialect cannot express', async () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+model User {
+  id        Int      @id @default(autoincrement())
+  email     String   @unique @db.VarChar(191)
+  bio       String?  @db.Text
+  updatedAt DateTime @updatedAt
+  posts     Post[]
+
+  @@index([bio])
+}
+
+model Post {
+  id       Int    @id @default(autoincrement())
+  authorId Int
+  slug     String @db.VarChar(50)
+  author   User   @relation(fields: [authorId], references: [id])
+
+  @@unique([authorId, slug])
+}
+`,
+    )
+    const generatePrismaDdl = async (dialect: Dialect) => {
+      const result = await generate({
+        origin: { type: 'prisma', path: prismaFile },
+        destinations: [{ type: 'sql', dialect, columnOrder: 'ordinal' }],
+        dryRun: true,
+      })
+      return result['schema.sql']
+    }
+
+    expect(await generatePrismaDdl('postgres')).toBe(`CREATE TABLE "Post" (
+  "id" serial NOT NULL PRIMARY KEY,
+  "authorId" integer NOT NULL,
+  "slug" varchar(50) NOT NULL,
+  UNIQUE ("authorId", "slug")
+);
+
+CREATE TABLE "User" (
+  "id" serial NOT NULL PRIMARY KEY,
+  "email" varchar(191) NOT NULL,
+  "bio" text,
+  -- unsupported: "updatedAt" ON UPDATE CURRENT_TIMESTAMP (needs a trigger)
+  "updatedAt" timestamp NOT NULL,
+  UNIQUE ("email")
+);
+CREATE INDEX "User_bio_idx" ON "User" ("bio");
+
+ALTER TABLE "Post" ADD CONSTRAINT "Post_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User" ("id");
+`)
+
+    // MySQL only indexes text columns with a prefix length
+    const mysql = await generatePrismaDdl('mysql')
+    // @updatedAt is set by Prisma Client, without a database default
+    expect(mysql).toContain('  `updatedAt` datetime NOT NULL ON UPDATE CURRENT_TIMESTAMP,\n')
+    expect(mysql).toContain(
+      '-- unsupported: CREATE INDEX `User_bio_idx` ON `User` (`bio`) (text and blob keys need a prefix length)\n',
+    )
+  })
+
+  it('should keep the column descriptions through a round trip to the sql origin', async () => {
+    const getDescribes = async (path: string, dialect: Dialect) => {
+      const model = await introspect({ origin: { type: 'sql', path, dialect }, destinations: [] })
+      return model.tables.flatMap((table) => table.columns.map(columnToDesc))
+    }
+    const describes = await getDescribes(sqlFile, 'mysql')
+
+    const mysqlFile = join(tempDir, 'mysql.sql')
+    writeFileSync(mysqlFile, await generateDdl('mysql'))
+    expect(await getDescribes(mysqlFile, 'mysql')).toEqual(describes)
+
+    // Types change with the dialect, but nullability, keys and comments are kept
+    const pick = ({ Field, Null, Key, Comment }: Desc) => ({ Field, Null, Key, Comment })
+    for (const dialect of ['postgres', 'sqlite'] as const) {
+      const roundTripFile = join(tempDir, `${dialect}.sql`)
+      writeFileSync(roundTripFile, await generateDdl(dialect))
+      expect((await getDescribes(roundTripFile, dialect)).map(pick)).toEqual(describes.map(pick))
+    }
+  })
+
+  it('should write Prisma database names, constraint names and unsigned ranges', async () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+model User {
+  id        Int      @id @default(autoincrement()) @db.UnsignedInt
+  createdAt DateTime @default(now()) @map("created_at")
+  posts     Post[]
+
+  @@map("users")
+}
+
+model Post {
+  id       Int  @id @default(autoincrement())
+  authorId Int  @map("author_id") @db.UnsignedInt
+  views    Int  @db.UnsignedSmallInt
+  author   User @relation(fields: [authorId], references: [id], map: "posts_author_fk")
+
+  @@index([authorId], map: "posts_author_idx")
+  @@map("posts")
+}
+`,
+    )
+    const generatePrismaDdl = async (dialect: Dialect) => {
+      const result = await generate({
+        origin: { type: 'prisma', path: prismaFile },
+        destinations: [{ type: 'sql', dialect, columnOrder: 'ordinal' }],
+        dryRun: true,
+      })
+      return result['schema.sql']
+    }
+
+    // Postgres has no unsigned integers: the next wider type keeps the range
+    expect(await generatePrismaDdl('postgres')).toBe(`CREATE TABLE "posts" (
+  "id" serial NOT NULL PRIMARY KEY,
+  "author_id" bigint NOT NULL,
+  "views" integer NOT NULL
+);
+CREATE INDEX "posts_author_idx" ON "posts" ("author_id");
+
+CREATE TABLE "users" (
+  "id" bigserial NOT NULL PRIMARY KEY,
+  "created_at" timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE "posts" ADD CONSTRAINT "posts_author_fk" FOREIGN KEY ("author_id") REFERENCES "users" ("id");
+`)
+
+    const mysql = await generatePrismaDdl('mysql')
+    expect(mysql).toContain('  `author_id` int unsigned NOT NULL,\n  `views` smallint unsigned NOT NULL\n')
+    expect(mysql).toContain('  `id` int unsigned NOT NULL PRIMARY KEY AUTO_INCREMENT,\n')
+  })
+
+  it('should keep magic comments through a round trip to the sql origin', async () => {
+    for (const dialect of ['mysql', 'postgres', 'sqlite'] as const) {
+      const roundTripFile = join(tempDir, `${dialect}.sql`)
+      writeFileSync(roundTripFile, await generateDdl(dialect))
+
+      const result = await generate({
+        origin: { type: 'sql', path: roundTripFile, dialect },
+        destinations: [{ type: 'zod', folder: '/zod' }],
+        magicComments: true,
+        dryRun: true,
+      })
+
+      const content = result['/zod/user_accounts.zod.ts']
+      expect(content).toContain('  email: z.string().email(),\n')
+      // SQLite keeps enum values in a CHECK constraint
+      if (dialect !== 'sqlite') {
+        expect(content).toContain("  role: z.enum(['admin','user']).default('user'),\n")
+      }
+    }
+  })
+})
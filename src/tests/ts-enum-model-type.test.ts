@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate } from '../main.js'
+
+describe('ts destination enumType and modelType', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-ts-enum-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should generate <Table><Column> enums and type aliases for MySQL inline enums', async () => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`status\` enum('active','banned') DEFAULT NULL,
+  \`kind\` enum('a','b') NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts', enumType: 'enum', modelType: 'type' }],
+      inflection: 'singular',
+      overrideColumns: { ts: { user_accounts: { kind: 'string' } } },
+      dryRun: true,
+    })
+    const content = result['user_accounts.ts.ts']
+
+    expect(content).toContain(`// TypeScript types for user_accounts
+
+export enum UserAccountRole {
+  Admin = 'admin',
+  User = 'user',
+}
+
+export enum UserAccountStatus {
+  Active = 'active',
+  Banned = 'banned',
+}
+
+export type UserAccount = {
+  id: number;
+  kind: string;
+  role: UserAccountRole;
+  status: UserAccountStatus | null;
+};
+`)
+    expect(content).toContain('export type SelectableUserAccount = {\n')
+    expect(content).not.toContain('interface')
+    // Overridden columns do not declare an enum
+    expect(content).not.toContain('UserAccountKind')
+  })
+
+  it('should declare each Prisma enum once for every table, keeping interfaces by default', async () => {
+    const prismaFile = join(tempDir, 'schema.prisma')
+    writeFileSync(
+      prismaFile,
+      `
+enum task_state {
+  todo
+  in_progress
+  done
+}
+
+model Task {
+  id       Int         @id @default(autoincrement())
+  state    task_state  @default(todo)
+  previous task_state?
+}
+
+model TaskEvent {
+  id    Int        @id @default(autoincrement())
+  state task_state
+}
+`,
+    )
+
+    const result = await generate({
+      origin: { type: 'prisma', path: prismaFile },
+      destinations: [{ type: 'ts', enumType: 'enum' }],
+      dryRun: true,
+    })
+
+    // Enums are nominal, so a single declaration keeps the tables compatible
+    expect(result['enums.ts']).toBe(`export enum TaskState {
+  Todo = 'todo',
+  InProgress = 'in_progress',
+  Done = 'done',
+}
+`)
+    expect(result['Task.ts.ts']).not.toContain('export enum')
+    expect(result['Task.ts.ts']).toContain(`import type { TaskState } from './enums';
+
+// TypeScript interfaces for Task
+
+export interface Task {
+  id: number;
+  previous: TaskState | null;
+  state: TaskState;
+}
+`)
+    expect(result['TaskEvent.ts.ts']).not.toContain('export enum')
+    expect(result['TaskEvent.ts.ts']).toContain("import type { TaskState } from './enums';\n")
+    expect(result['TaskEvent.ts.ts']).toContain('  state: TaskState;\n')
+  })
+})
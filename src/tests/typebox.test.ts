@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, type Config } from '../main.js'
+
+describe('typebox destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-typebox-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  \`nickname\` varchar(50) DEFAULT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`status\` enum('active','banned') DEFAULT NULL,
+  \`balance\` decimal(10,2) NOT NULL,
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateTypeBox = async (options: Partial<Config> = {}) =>
+    (
+      await generate({
+        origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+        destinations: [{ type: 'typebox' }],
+        dryRun: true,
+        ...options,
+      })
+    )['user_accounts.typebox.ts']
+
+  it('should generate Type.Object schemas with Static types', async () => {
+    const content = await generateTypeBox()
+
+    expect(content).toContain("import { Type, type Static } from '@sinclair/typebox';")
+    expect(content).toContain(`export const insertable_user_accounts = Type.Object({
+  active: Type.Optional(Type.Boolean({ default: true })),
+  balance: Type.String({ minLength: 1 }),
+  email: Type.String(),
+  id: Type.Optional(Type.Number()),
+  nickname: Type.Union([Type.String(), Type.Null()]),
+  role: Type.Optional(Type.Union([Type.Literal('admin'), Type.Literal('user')], { default: 'user' })),
+  status: Type.Union([Type.Union([Type.Literal('active'), Type.Literal('banned')]), Type.Null()]),
+})`)
+    expect(content).toContain(`export const updateable_user_accounts = Type.Object({
+  active: Type.Optional(Type.Boolean({ default: true })),
+  balance: Type.Optional(Type.String({ minLength: 1 })),
+  email: Type.Optional(Type.String()),
+  id: Type.Optional(Type.Number()),
+  nickname: Type.Union([Type.String(), Type.Null()]),
+  role: Type.Optional(Type.Union([Type.Literal('admin'), Type.Literal('user')], { default: 'user' })),
+  status: Type.Union([Type.Union([Type.Literal('active'), Type.Literal('banned')]), Type.Null()]),
+})`)
+    expect(content).toContain(`export const selectable_user_accounts = Type.Object({
+  active: Type.Boolean(),
+  balance: Type.String(),
+  created_at: Type.Optional(Type.String({ format: 'date-time' })),
+  email: Type.String(),
+  id: Type.Optional(Type.Number()),
+  nickname: Type.Union([Type.String(), Type.Null()]),
+  role: Type.Union([Type.Literal('admin'), Type.Literal('user')]),
+  status: Type.Union([Type.Union([Type.Literal('active'), Type.Literal('banned')]), Type.Null()]),
+})`)
+    expect(content).toContain('export type UserAccountsType = Static<typeof user_accounts>')
+    expect(content).toContain(
+      'export type InsertableUserAccountsType = Static<typeof insertable_user_accounts>',
+    )
+  })
+
+  it('should apply overrideColumns and overrideTypes with TypeBox nullability', async () => {
+    const content = await generateTypeBox({
+      overrideTypes: { typebox: { 'decimal(10,2)': 'Type.Decimal()' } },
+      overrideColumns: {
+        typebox: { user_accounts: { email: "Type.String({ format: 'email' })" } },
+      },
+    })
+    const selectable = content.slice(content.indexOf('export const selectable_user_accounts'))
+
+    expect(selectable).toContain("  email: Type.String({ format: 'email' }),")
+    expect(selectable).toContain('  balance: Type.Decimal(),')
+    expect(content).toContain(
+      "  email: Type.Union([Type.String({ format: 'email' }), Type.Null()]),",
+    )
+    expect(content).toContain('  balance: Type.Union([Type.Decimal(), Type.Null()]),')
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, type Config } from '../main.js'
+
+describe('valibot destination', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-valibot-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  \`nickname\` varchar(50) DEFAULT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`balance\` decimal(10,2) NOT NULL,
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  \`bio\` text COMMENT '@valibot(v.pipe(v.string(), v.maxLength(500)))',
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateValibot = async (options: Partial<Config> = {}, destination = {}) => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'valibot', ...destination }],
+      dryRun: true,
+      ...options,
+    })
+    return result['user_accounts.valibot.ts']
+  }
+
+  it('should generate the four schema variants and their types', async () => {
+    const content = await generateValibot({}, { useTrim: true, requiredString: true })
+
+    expect(content).toContain("import * as v from 'valibot';")
+    expect(content).toContain(`export const user_accounts = v.object({
+  active: v.optional(v.boolean(), true),
+  balance: v.pipe(v.string(), v.trim(), v.minLength(1)),
+  bio: v.nullable(v.pipe(v.string(), v.trim())),
+  created_at: v.optional(v.date()),
+  email: v.pipe(v.string(), v.trim(), v.minLength(1)),
+  id: v.optional(v.number()),
+  nickname: v.nullable(v.pipe(v.string(), v.trim())),
+  role: v.optional(v.picklist(['admin','user']), 'user'),
+})`)
+    expect(content).toContain(`export const insertable_user_accounts = v.object({
+  active: v.optional(v.boolean(), true),
+  balance: v.pipe(v.string(), v.trim(), v.minLength(1)),
+  bio: v.nullable(v.pipe(v.string(), v.trim())),
+  email: v.pipe(v.string(), v.trim(), v.minLength(1)),
+  id: v.optional(v.number()),
+  nickname: v.nullable(v.pipe(v.string(), v.trim())),
+  role: v.optional(v.picklist(['admin','user']), 'user'),
+})`)
+    expect(content).toContain('  email: v.optional(v.pipe(v.string(), v.trim(), v.minLength(1))),')
+    expect(content).toContain(`export const selectable_user_accounts = v.object({
+  active: v.boolean(),
+  balance: v.string(),
+  bio: v.nullable(v.string()),
+  created_at: v.optional(v.date()),
+  email: v.string(),
+  id: v.optional(v.number()),
+  nickname: v.nullable(v.string()),
+  role: v.picklist(['admin','user']),
+})`)
+    expect(content).toContain(
+      'export type UserAccountsType = v.InferOutput<typeof user_accounts>',
+    )
+    expect(content).toContain(
+      'export type InsertableUserAccountsType = v.InferOutput<typeof insertable_user_accounts>',
+    )
+    expect(content).toContain(
+      'export type UpdateableUserAccountsType = v.InferOutput<typeof updateable_user_accounts>',
+    )
+    expect(content).toContain(
+      'export type SelectableUserAccountsType = v.InferOutput<typeof selectable_user_accounts>',
+    )
+  })
+
+  it('should honor nullish and useDateType', async () => {
+    const content = await generateValibot({}, { nullish: true, useDateType: true })
+
+    expect(content).toContain('  nickname: v.nullish(v.string()),')
+    expect(content).toContain(
+      '  created_at: v.optional(v.pipe(v.union([v.number(), v.string(), v.date()]), v.transform((value) => new Date(value)))),',
+    )
+    // Selectable schemas never use nullish
+    expect(content).toMatch(
+      /selectable_user_accounts = v\.object\(\{[^}]*nickname: v\.nullable\(v\.string\(\)\)/,
+    )
+  })
+
+  it('should apply @valibot magic comments, overrideTypes and overrideColumns', async () => {
+    const content = await generateValibot({
+      magicComments: true,
+      overrideTypes: { valibot: { 'decimal(10,2)': 'v.pipe(v.string(), v.decimal())' } },
+      overrideColumns: { valibot: { user_accounts: { email: 'v.pipe(v.string(), v.email())' } } },
+    })
+
+    expect(content).toContain('  bio: v.pipe(v.string(), v.maxLength(500)),')
+    expect(content).toContain('  balance: v.pipe(v.string(), v.decimal()),')
+    expect(content).toContain('  email: v.pipe(v.string(), v.email()),')
+    expect(content).toMatch(
+      /updateable_user_accounts = v\.object\(\{[^}]*balance: v\.nullable\(v\.pipe\(v\.string\(\), v\.decimal\(\)\)\)/,
+    )
+    expect(content).toMatch(
+      /updateable_user_accounts = v\.object\(\{[^}]*email: v\.nullable\(v\.pipe\(v\.string\(\), v\.email\(\)\)\)/,
+    )
+  })
+
+  it('should use a custom header instead of the default import', async () => {
+    const content = await generateValibot(
+      {},
+      { header: "import * as v from 'valibot/custom';\n\n" },
+    )
+
+    expect(
+      content.startsWith("import * as v from 'valibot/custom';\n\nexport const user_accounts"),
+    ).toBe(true)
+    expect(content).not.toContain("from 'valibot';")
+  })
+})
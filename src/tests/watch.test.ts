@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { watch, type Config, type Watcher } from '../main.js'
+
+const schema = (extraColumn = '') => `
+CREATE TABLE \`users\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`name\` varchar(255) NOT NULL,${extraColumn}
+    PRIMARY KEY (\`id\`)
+);
+
+CREATE TABLE \`posts\` (
+    \`id\` int NOT NULL AUTO_INCREMENT,
+    \`title\` varchar(255) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+`
+
+describe('watch mode', () => {
+  let tempDir: string
+  let sqlFile: string
+  let outputFolder: string
+  let config: Config
+  let watcher: Watcher | undefined
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-watch-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    outputFolder = join(tempDir, 'output')
+    writeFileSync(sqlFile, schema())
+    config = {
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [{ type: 'ts', folder: outputFolder }],
+      silent: true,
+    }
+  })
+
+  afterEach(() => {
+    watcher?.close()
+    watcher = undefined
+    rmSync(tempDir, { recursive: true })
+  })
+
+  it('should reject non file-based origins', async () => {
+    await expect(
+      watch({
+        ...config,
+        origin: { type: 'mysql', host: 'localhost', port: 3306, user: 'root', password: '', database: 'app' },
+      }),
+    ).rejects.toThrow('Watch mode only supports file-based origins')
+  })
+
+  it('should regenerate only the files that changed', async () => {
+    const onGenerate = vi.fn()
+    watcher = await watch(config, { debounce: 20, onGenerate })
+
+    expect(onGenerate).toHaveBeenLastCalledWith([
+      join(outputFolder, 'posts.ts.ts'),
+      join(outputFolder, 'users.ts.ts'),
+    ])
+
+    writeFileSync(sqlFile, schema('\n    `email` varchar(191) NOT NULL,'))
+
+    await vi.waitFor(() => expect(onGenerate).toHaveBeenCalledTimes(2), { timeout: 5000 })
+    expect(onGenerate).toHaveBeenLastCalledWith([join(outputFolder, 'users.ts.ts')])
+    expect(readFileSync(join(outputFolder, 'users.ts.ts'), 'utf-8')).toContain('email: string;')
+  })
+
+  it('should debounce bursts of saves', async () => {
+    const onGenerate = vi.fn()
+    watcher = await watch(config, { debounce: 100, onGenerate })
+
+    writeFileSync(sqlFile, schema('\n    `a` int,'))
+    writeFileSync(sqlFile, schema('\n    `b` int,'))
+    writeFileSync(sqlFile, schema('\n    `c` int,'))
+
+    await vi.waitFor(() => expect(onGenerate).toHaveBeenCalledTimes(2), { timeout: 5000 })
+    await new Promise((resolve) => setTimeout(resolve, 300))
+    expect(onGenerate).toHaveBeenCalledTimes(2)
+    expect(readFileSync(join(outputFolder, 'users.ts.ts'), 'utf-8')).toContain('c: number | null;')
+  })
+
+  it('should report errors and keep watching', async () => {
+    const onGenerate = vi.fn()
+    const onError = vi.fn()
+    watcher = await watch(config, { debounce: 20, onGenerate, onError })
+
+    writeFileSync(sqlFile, schema("\n    `kind` enum('a','b') COMMENT '@zod(z.string())',"))
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1), { timeout: 5000 })
+    expect(onError.mock.calls[0][0].message).toContain('Magic comments are not supported')
+
+    writeFileSync(sqlFile, schema("\n    `kind` enum('a','b') NOT NULL,"))
+    await vi.waitFor(() => expect(onGenerate).toHaveBeenCalledTimes(2), { timeout: 5000 })
+    expect(readFileSync(join(outputFolder, 'users.ts.ts'), 'utf-8')).toContain("kind: 'a' | 'b';")
+  })
+})
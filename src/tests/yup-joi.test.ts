@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, type Config, type Destination } from '../main.js'
+
+describe('yup and joi destinations', () => {
+  let tempDir: string
+  let sqlFile: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-yup-joi-test-'))
+    sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(
+      sqlFile,
+      `
+CREATE TABLE \`user_accounts\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`email\` varchar(191) NOT NULL,
+  \`nickname\` varchar(50) DEFAULT NULL,
+  \`role\` enum('admin','user') NOT NULL DEFAULT 'user',
+  \`active\` tinyint(1) NOT NULL DEFAULT '1',
+  \`created_at\` datetime NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (\`id\`)
+);
+`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateFor = async (destination: Destination, options: Partial<Config> = {}) => {
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql' },
+      destinations: [destination],
+      dryRun: true,
+      ...options,
+    })
+    return result[`user_accounts.${destination.type}.ts`]
+  }
+
+  it('should generate yup.object schemas with InferType types', async () => {
+    const content = await generateFor({ type: 'yup' })
+
+    expect(content).toContain("import * as yup from 'yup';")
+    expect(content).toContain(`export const insertable_user_accounts = yup.object({
+  active: yup.boolean().default(true),
+  email: yup.string().max(191).defined(),
+  id: yup.number().optional(),
+  nickname: yup.string().max(50).nullable().defined(),
+  role: yup.string().oneOf(['admin', 'user']).default('user'),
+})`)
+    expect(content).toContain(`export const selectable_user_accounts = yup.object({
+  active: yup.boolean().defined(),
+  created_at: yup.date().optional(),
+  email: yup.string().max(191).defined(),
+  id: yup.number().optional(),
+  nickname: yup.string().max(50).nullable().defined(),
+  role: yup.string().oneOf(['admin', 'user']).defined(),
+})`)
+    expect(content).toContain('  email: yup.string().max(191).optional(),\n')
+    expect(content).toContain(
+      'export type InsertableUserAccountsType = yup.InferType<typeof insertable_user_accounts>',
+    )
+  })
+
+  it('should generate Joi.object schemas without types', async () => {
+    const content = await generateFor({ type: 'joi', requiredString: true, useTrim: true })
+
+    expect(content).toContain("import Joi from 'joi';")
+    expect(content).toContain(`export const insertable_user_accounts = Joi.object({
+  active: Joi.boolean().default(true),
+  email: Joi.string().trim().max(191).required(),
+  id: Joi.number().optional(),
+  nickname: Joi.string().trim().max(50).allow('', null).required(),
+  role: Joi.string().valid('admin', 'user').default('user'),
+})`)
+    expect(content).toContain(`export const selectable_user_accounts = Joi.object({
+  active: Joi.boolean().required(),
+  created_at: Joi.date().optional(),
+  email: Joi.string().max(191).allow('').required(),
+  id: Joi.number().optional(),
+  nickname: Joi.string().max(50).allow('', null).required(),
+  role: Joi.string().valid('admin', 'user').required(),
+})`)
+    expect(content).not.toContain('export type')
+  })
+
+  it('should keep overrideColumns expressions, adding input nullability', async () => {
+    const content = await generateFor(
+      { type: 'yup' },
+      { overrideColumns: { yup: { user_accounts: { email: 'yup.string().email()' } } } },
+    )
+
+    expect(content).toContain('  email: yup.string().email().nullable(),\n')
+    expect(content).toContain('  email: yup.string().email(),\n')
+  })
+})
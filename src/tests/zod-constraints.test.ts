@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { writeFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generate, type Config } from '../main.js'
+
+describe('zod destination constraints', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mutano-zod-constraints-test-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true })
+  })
+
+  const generateFor = async (sql: string, origin: Partial<Config['origin']>, constraints = true) => {
+    const sqlFile = join(tempDir, 'schema.sql')
+    writeFileSync(sqlFile, sql)
+    const result = await generate({
+      origin: { type: 'sql', path: sqlFile, dialect: 'mysql', ...origin } as Config['origin'],
+      destinations: [{ type: 'zod', constraints }],
+      dryRun: true,
+    })
+    return result['items.zod.ts']
+  }
+
+  const mysqlItems = `
+CREATE TABLE \`items\` (
+  \`id\` int unsigned NOT NULL AUTO_INCREMENT,
+  \`sku\` char(36) NOT NULL,
+  \`name\` varchar(191) DEFAULT NULL,
+  \`stock\` tinyint unsigned NOT NULL DEFAULT '0',
+  \`level\` smallint(6) NOT NULL,
+  \`price\` decimal(10,2) NOT NULL,
+  \`rate\` decimal(5,5) unsigned DEFAULT NULL,
+  \`made\` year NOT NULL,
+  \`weight\` double NOT NULL,
+  PRIMARY KEY (\`id\`)
+);
+`
+
+  it('should derive lengths, integer ranges, decimal precision and years from MySQL types', async () => {
+    const content = await generateFor(mysqlItems, { dialect: 'mysql' })
+
+    expect(content).toContain(`export const insertable_items = z.object({
+  id: z.number().int().min(0).max(4294967295).optional(),
+  level: z.number().int().min(-32768).max(32767),
+  made: z.number().int().min(1901).max(2155),
+  name: z.string().max(191).nullable(),
+  price: z.string().trim().min(1).regex(/^-?\\d{1,8}(?:\\.\\d{1,2})?$/),
+  rate: z.string().trim().regex(/^0(?:\\.\\d{1,5})?$/).nullable(),
+  sku: z.string().max(36),
+  stock: z.number().int().min(0).max(255).optional().default(0),
+  weight: z.number(),
+})`)
+    // Selectable schemas describe stored data, so they are left unchecked
+    expect(content).toContain(`export const selectable_items = z.object({
+  id: z.number().optional(),
+  level: z.number(),
+  made: z.number(),
+  name: z.string().nullable(),
+  price: z.string(),
+  rate: z.string().nullable(),
+  sku: z.string(),
+  stock: z.number(),
+  weight: z.number(),
+})`)
+  })
+
+  it('should keep the generated output unchanged without the option', async () => {
+    const content = await generateFor(mysqlItems, { dialect: 'mysql' }, false)
+
+    expect(content).toContain('  id: z.number().optional(),\n')
+    expect(content).toContain('  price: z.string().trim().min(1),\n')
+    expect(content).toContain('  sku: z.string(),\n')
+  })
+
+  it('should check PostgreSQL types and leave SQLite integers unbounded', async () => {
+    const postgres = await generateFor(
+      `
+CREATE TABLE items (
+  id integer NOT NULL,
+  code varchar(20) NOT NULL,
+  total numeric(12,0) NOT NULL,
+  amount numeric NOT NULL
+);
+`,
+      { dialect: 'postgres' },
+    )
+    expect(postgres).toContain(`export const insertable_items = z.object({
+  amount: z.string().trim().min(1),
+  code: z.string().max(20),
+  id: z.number().int().min(-2147483648).max(2147483647),
+  total: z.string().trim().min(1).regex(/^-?\\d{1,12}$/),
+})`)
+
+    const sqlite = await generateFor(
+      `
+CREATE TABLE items (
+  id integer NOT NULL,
+  name varchar(10) NOT NULL
+);
+`,
+      { dialect: 'sqlite' },
+    )
+    expect(sqlite).toContain('  id: z.number().int(),\n  name: z.string().max(10),\n')
+  })
+})
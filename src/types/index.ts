@@ -9,10 +9,151 @@ export interface Desc {
   Null: string
   Type: string
   DataType?: string
+  /** Native database type of Prisma fields, from `@db.*` attributes */
+  NativeType?: string
+  /** Database name of Prisma fields mapped with `@map` */
+  DbName?: string
   Comment: string
   EnumOptions?: string[]
+  EnumName?: string
+  /** `PRI` for primary key columns, `UNI` for columns with a single-column unique constraint */
+  Key?: string
+  /** Column referenced by a single-column foreign key */
+  References?: ColumnReference
+  /** Branded ID type of primary key columns and the foreign key columns that reference them */
+  IdBrand?: string
 }
 
+export interface ColumnReference {
+  table: string
+  column: string
+}
+
+/**
+ * Serializable schema model returned by introspect()
+ */
+export type OriginType = Config['origin']['type']
+
+export type Dialect = 'mysql' | 'postgres' | 'sqlite'
+
+export interface SchemaModel {
+  origin: OriginType
+  /** SQL dialect of the origin (from `dialect` for SQL files, from the datasource provider for Prisma) */
+  dialect?: Dialect
+  tables: EntityModel[]
+  views: EntityModel[]
+  /** Named enum types (Prisma enums, PostgreSQL enum types) */
+  enums: EnumModel[]
+}
+
+export interface EntityModel {
+  name: string
+  /** Database name of Prisma models mapped with `@@map` */
+  dbName?: string
+  kind: 'table' | 'view'
+  comment: string
+  columns: ColumnModel[]
+  /** Primary key column names */
+  primaryKey: string[]
+  /** Column names of each unique constraint */
+  uniqueKeys: string[][]
+  foreignKeys: ForeignKeyModel[]
+  /** Non-unique indexes */
+  indexes: IndexModel[]
+  /** Relations to other tables, following foreign keys in both directions */
+  relations: RelationModel[]
+}
+
+export interface ForeignKeyModel {
+  /** Constraint name, when the origin has one */
+  name?: string
+  columns: string[]
+  referencedTable: string
+  /** Referenced column names, in the order of `columns` */
+  referencedColumns: string[]
+  /** Prisma relation field holding the referenced record */
+  relationField?: string
+  /** Prisma relation field of the referenced model holding the referencing records */
+  inverseRelationField?: string
+}
+
+export interface IndexModel {
+  /** Index name, when the origin has one */
+  name?: string
+  columns: string[]
+}
+
+export interface RelationModel {
+  /** Field name: the Prisma relation field, or derived from the foreign key */
+  name: string
+  /** Related table */
+  table: string
+  /** `many` for the rows referencing this table through a non-unique foreign key */
+  cardinality: 'one' | 'many'
+  /** A `one` relation can be missing: nullable foreign keys and references to this table */
+  nullable: boolean
+  /** Foreign key followed by the relation, declared by this table or by the related one */
+  foreignKey: ForeignKeyModel
+}
+
+/**
+ * Nested relation schemas of the zod and ts destinations
+ */
+export interface RelationsOptions {
+  /** Levels of relations to nest (default: 1) */
+  depth?: number
+  /** Relation names to include, keyed by table name; tables not listed get no relations */
+  include?: Record<string, string[]>
+}
+
+/**
+ * Unique constraints, foreign keys and indexes of an entity, as read from the origin
+ */
+export interface EntityKeys {
+  uniqueKeys: string[][]
+  foreignKeys: ForeignKeyModel[]
+  indexes: IndexModel[]
+}
+
+export interface ColumnModel {
+  name: string
+  /** Declared type, e.g. `varchar(191)`, `int unsigned`, `DateTime` */
+  type: string
+  /** Data type used for type mapping, e.g. `varchar` (falls back to the declared type) */
+  dataType: string
+  /** Native database type of Prisma fields, e.g. `VarChar(191)` from `@db.VarChar(191)` */
+  nativeType?: string
+  /** Database name of Prisma fields mapped with `@map` */
+  dbName?: string
+  nullable: boolean
+  default: string | null
+  /** Value comes from an auto-increment sequence */
+  autoIncrement: boolean
+  /** Default is computed on insert, e.g. `CURRENT_TIMESTAMP`, `now()`, `uuid()` */
+  defaultGenerated: boolean
+  /** Value is refreshed on update, e.g. `ON UPDATE CURRENT_TIMESTAMP`, `@updatedAt` */
+  onUpdate: boolean
+  primaryKey: boolean
+  /** Column has a single-column unique constraint */
+  unique: boolean
+  /** Column referenced by a single-column foreign key */
+  references?: ColumnReference
+  comment: string
+  enumValues?: string[]
+  /** Name of the enum type for Prisma enums and PostgreSQL enum types */
+  enumName?: string
+}
+
+export interface EnumModel {
+  name: string
+  values: string[]
+}
+
+/**
+ * Order of the columns of generated entities: sorted by name, or as declared by the origin
+ */
+export type ColumnOrder = 'alphabetical' | 'ordinal'
+
 export type Destination =
   | {
       type: 'zod'
@@ -22,14 +163,137 @@ export type Destination =
       nullish?: boolean
       requiredString?: boolean
       version?: 3 | 4
+      /** Check lengths, integer ranges and decimal precision of input schemas */
+      constraints?: boolean
+      /** Write enums declared by the origin to `<folder>/enums.ts` and import them */
+      sharedEnums?: boolean
+      /** Brand primary and foreign key columns with types declared in `<folder>/ids.ts` */
+      brandedIds?: boolean
+      /** Write selectable models extended with their relations to `<folder>/relations.ts` */
+      relations?: boolean | RelationsOptions
+      columnOrder?: ColumnOrder
       header?: string
       folder?: string
       suffix?: string
     }
+  | {
+      type: 'valibot'
+      useDateType?: boolean
+      useBooleanType?: boolean
+      useTrim?: boolean
+      nullish?: boolean
+      requiredString?: boolean
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'arktype'
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'typebox'
+      requiredString?: boolean
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'effect'
+      useDateType?: boolean
+      useTrim?: boolean
+      requiredString?: boolean
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'yup'
+      useTrim?: boolean
+      requiredString?: boolean
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'joi'
+      useTrim?: boolean
+      requiredString?: boolean
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'jsonschema'
+      columnOrder?: ColumnOrder
+      folder?: string
+      suffix?: string
+    }
+  | {
+      type: 'openapi'
+      /** Output format, inferred from the outFile extension when omitted (default: 'yaml') */
+      format?: 'yaml' | 'json'
+      /** Document title (default: 'Database schemas') */
+      title?: string
+      /** Document version (default: '1.0.0') */
+      version?: string
+      columnOrder?: ColumnOrder
+      folder?: string
+      outFile?: string
+    }
+  | {
+      type: 'graphql'
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      outFile?: string
+    }
+  | {
+      type: 'drizzle'
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      outFile?: string
+    }
+  | {
+      type: 'prisma'
+      columnOrder?: ColumnOrder
+      /** Replaces the default datasource and generator blocks */
+      header?: string
+      folder?: string
+      outFile?: string
+    }
+  | {
+      type: 'sql'
+      /** Target dialect (default: the origin dialect, or mysql) */
+      dialect?: Dialect
+      columnOrder?: ColumnOrder
+      header?: string
+      folder?: string
+      outFile?: string
+    }
   | {
       type: 'ts'
       enumType?: 'union' | 'enum'
       modelType?: 'interface' | 'type'
+      /**
+       * Write enums declared by the origin to `<folder>/enums.ts` and import them, which
+       * `enumType: 'enum'` always does
+       */
+      sharedEnums?: boolean
+      /** Brand primary and foreign key columns with types declared in `<folder>/ids.ts` */
+      brandedIds?: boolean
+      /** Write selectable models extended with their relations to `<folder>/relations.ts` */
+      relations?: boolean | RelationsOptions
+      columnOrder?: ColumnOrder
       header?: string
       folder?: string
       suffix?: string
@@ -37,11 +301,73 @@ export type Destination =
   | {
       type: 'kysely'
       schemaName?: string
+      /** Brand primary and foreign key columns with types declared at the top of the file */
+      brandedIds?: boolean
+      columnOrder?: ColumnOrder
       header?: string
       folder?: string
       suffix?: string
       outFile?: string
     }
+  | PluginDestination
+
+/**
+ * Destination rendered by a plugin registered in `config.plugins`
+ */
+export interface PluginDestination {
+  type: 'custom'
+  /** Name of the plugin that renders this destination */
+  plugin: string
+  header?: string
+  folder?: string
+  /** Per-entity file suffix (default: the plugin name) */
+  suffix?: string
+  /** Path of the consolidated file (default: `<folder>/<plugin name><extension>`) */
+  outFile?: string
+  /** Free-form options read by the plugin */
+  options?: Record<string, unknown>
+}
+
+export type OperationType = 'table' | 'insertable' | 'updateable' | 'selectable'
+
+/**
+ * Built-in destination whose type mapping a plugin can reuse
+ */
+export type TypeTarget = 'zod' | 'ts' | 'kysely' | 'valibot' | 'arktype' | 'typebox' | 'effect' | 'yup' | 'joi'
+
+export interface PluginContext {
+  config: Config
+  destination: PluginDestination
+  /** Full schema model of the run */
+  model: SchemaModel
+  /**
+   * Resolve a column type exactly like a built-in destination would, including
+   * overrideColumns, magic comments, overrideTypes, enums and nullability
+   */
+  getType: (
+    op: OperationType,
+    entity: EntityModel,
+    column: ColumnModel,
+    target?: TypeTarget,
+  ) => string
+  /** Entity name after inflection, in PascalCase */
+  typeName: (entity: EntityModel) => string
+  /** Column name, camelCased when `camelCase` is enabled */
+  fieldName: (column: ColumnModel) => string
+}
+
+export interface DestinationPlugin {
+  /** Name referenced by `{ type: 'custom', plugin: name }` destinations */
+  name: string
+  /** Extension of generated files (default: '.ts') */
+  extension?: string
+  /** Header prepended to every file unless the destination sets its own */
+  header?: string
+  /** Render one file per table or view; return null to skip the entity */
+  renderEntity?: (entity: EntityModel, context: PluginContext) => string | null
+  /** Render a single file for all tables and views */
+  renderConsolidated?: (entities: EntityModel[], context: PluginContext) => string
+}
 
 export interface Config {
   origin:
@@ -88,20 +414,43 @@ export interface Config {
   camelCase?: boolean
   silent?: boolean
   dryRun?: boolean
+  check?: boolean
+  clean?: boolean
+  /**
+   * Set by the CLI's `--table` and `--only` when a run covers part of the config: clean keeps the
+   * files of other entities and destinations, and check mode does not report them as missing
+   */
+  partial?: { tables?: string[] }
   magicComments?: boolean
   overrideTypes?: {
     zod?: Record<string, string>
     ts?: Record<string, string>
     kysely?: Record<string, string>
+    valibot?: Record<string, string>
+    arktype?: Record<string, string>
+    typebox?: Record<string, string>
+    effect?: Record<string, string>
+    yup?: Record<string, string>
+    joi?: Record<string, string>
   }
   overrideColumns?: {
     zod?: Record<string, Record<string, string>>
     ts?: Record<string, Record<string, string>>
     kysely?: Record<string, Record<string, string>>
+    valibot?: Record<string, Record<string, string>>
+    arktype?: Record<string, Record<string, string>>
+    typebox?: Record<string, Record<string, string>>
+    effect?: Record<string, Record<string, string>>
+    yup?: Record<string, Record<string, string>>
+    joi?: Record<string, Record<string, string>>
   }
   includeViews?: boolean
   enumDeclarations?: Record<string, string[]>
   inflection?: 'singular' | 'plural' | 'none'
+  /** Default column order of all destinations (default: 'ordinal' for sql, prisma and drizzle, otherwise 'alphabetical') */
+  columnOrder?: ColumnOrder
+  /** Destination plugins available to `{ type: 'custom' }` destinations */
+  plugins?: DestinationPlugin[]
 }
 
 export interface GenerateContentParams {
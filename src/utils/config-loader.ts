@@ -0,0 +1,242 @@
+/**
+ * Config file discovery, loading and validation for the mutano CLI
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { Config } from '../types/index.js'
+
+/**
+ * Config file names looked up in the working directory, in priority order
+ */
+export const configFileNames = [
+  'mutano.config.ts',
+  'mutano.config.js',
+  'mutano.config.mjs',
+  'mutano.config.json',
+]
+
+const originTypes = ['prisma', 'sql', 'mysql', 'postgres', 'sqlite']
+const destinationTypes = ['zod', 'ts', 'kysely', 'valibot', 'arktype', 'typebox', 'effect', 'yup', 'joi', 'jsonschema', 'openapi', 'graphql', 'drizzle', 'prisma', 'sql', 'custom']
+const sqlDialects = ['mysql', 'postgres', 'sqlite']
+const inflections = ['singular', 'plural', 'none']
+const openApiFormats = ['yaml', 'json']
+const columnOrders = ['alphabetical', 'ordinal']
+const stringArrayOptions = ['tables', 'views', 'ignore', 'ignoreViews'] as const
+const booleanOptions = [
+  'camelCase',
+  'silent',
+  'dryRun',
+  'check',
+  'clean',
+  'magicComments',
+  'includeViews',
+] as const
+
+/**
+ * Find the first mutano config file in a directory
+ */
+export function findConfigFile(cwd: string): string | null {
+  for (const fileName of configFileNames) {
+    const filePath = path.join(cwd, fileName)
+    if (existsSync(filePath)) {
+      return filePath
+    }
+  }
+  return null
+}
+
+/**
+ * Load and validate a config file (.ts, .js, .mjs or .json)
+ */
+export async function loadConfigFile(filePath: string): Promise<Config> {
+  const fullPath = path.resolve(filePath)
+  if (!existsSync(fullPath)) {
+    throw new Error(`Config file not found: ${filePath}`)
+  }
+
+  let loaded: unknown
+  if (fullPath.endsWith('.json')) {
+    const content = await readFile(fullPath, 'utf-8')
+    try {
+      loaded = JSON.parse(content)
+    } catch (error) {
+      throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`)
+    }
+  } else {
+    try {
+      const module = await import(pathToFileURL(fullPath).href)
+      loaded = module.default ?? module.config
+    } catch (error) {
+      // Node only imports .ts files when type stripping is available
+      if ((error as { code?: string }).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+        throw new Error(
+          `Cannot load ${filePath}: this Node.js version cannot import TypeScript files. ` +
+            'Run mutano through a TypeScript loader (e.g. `npx tsx node_modules/.bin/mutano`) ' +
+            'or use a .js/.mjs/.json config file.',
+        )
+      }
+      throw error
+    }
+  }
+
+  return validateConfig(loaded, filePath)
+}
+
+/**
+ * Validate an unknown value against the Config shape.
+ * Throws an error listing every problem found.
+ */
+export function validateConfig(value: unknown, source = 'config'): Config {
+  const errors: string[] = []
+
+  if (!isObject(value)) {
+    throw new Error(`Invalid mutano config in ${source}: expected an object`)
+  }
+
+  const { origin, destinations } = value
+
+  if (!isObject(origin)) {
+    errors.push('`origin` must be an object')
+  } else if (!originTypes.includes(origin.type as string)) {
+    errors.push(`\`origin.type\` must be one of: ${originTypes.join(', ')}`)
+  } else if (origin.type === 'mysql' || origin.type === 'postgres') {
+    for (const key of ['host', 'user', 'password', 'database']) {
+      if (typeof origin[key] !== 'string') {
+        errors.push(`\`origin.${key}\` must be a string`)
+      }
+    }
+    if (typeof origin.port !== 'number') {
+      errors.push('`origin.port` must be a number')
+    }
+  } else {
+    if (typeof origin.path !== 'string') {
+      errors.push('`origin.path` must be a string')
+    }
+    if (
+      origin.type === 'sql' &&
+      origin.dialect !== undefined &&
+      !sqlDialects.includes(origin.dialect as string)
+    ) {
+      errors.push(`\`origin.dialect\` must be one of: ${sqlDialects.join(', ')}`)
+    }
+  }
+
+  const { plugins } = value
+  const pluginNames: string[] = []
+  if (plugins !== undefined) {
+    if (!Array.isArray(plugins)) {
+      errors.push('`plugins` must be an array')
+    } else {
+      plugins.forEach((plugin, index) => {
+        if (!isObject(plugin) || typeof plugin.name !== 'string') {
+          errors.push(`\`plugins[${index}].name\` must be a string`)
+        } else {
+          pluginNames.push(plugin.name)
+        }
+      })
+    }
+  }
+
+  if (!Array.isArray(destinations) || destinations.length === 0) {
+    errors.push('`destinations` must be a non-empty array')
+  } else {
+    destinations.forEach((destination, index) => {
+      if (!isObject(destination)) {
+        errors.push(`\`destinations[${index}]\` must be an object`)
+        return
+      }
+      // Every problem of a destination is reported, not only the first one
+      if (!destinationTypes.includes(destination.type as string)) {
+        errors.push(
+          `\`destinations[${index}].type\` must be one of: ${destinationTypes.join(', ')}`,
+        )
+      }
+      if (
+        destination.type === 'custom' &&
+        !pluginNames.includes(destination.plugin as string)
+      ) {
+        errors.push(
+          `\`destinations[${index}].plugin\` must name a plugin registered in \`plugins\``,
+        )
+      }
+      if (
+        destination.type === 'sql' &&
+        destination.dialect !== undefined &&
+        !sqlDialects.includes(destination.dialect as string)
+      ) {
+        errors.push(
+          `\`destinations[${index}].dialect\` must be one of: ${sqlDialects.join(', ')}`,
+        )
+      }
+      if (
+        destination.type === 'openapi' &&
+        destination.format !== undefined &&
+        !openApiFormats.includes(destination.format as string)
+      ) {
+        errors.push(
+          `\`destinations[${index}].format\` must be one of: ${openApiFormats.join(', ')}`,
+        )
+      }
+      if (
+        destination.columnOrder !== undefined &&
+        !columnOrders.includes(destination.columnOrder as string)
+      ) {
+        errors.push(
+          `\`destinations[${index}].columnOrder\` must be one of: ${columnOrders.join(', ')}`,
+        )
+      }
+      if (
+        isObject(destination.relations) &&
+        destination.relations.depth !== undefined &&
+        !(Number.isInteger(destination.relations.depth) && Number(destination.relations.depth) > 0)
+      ) {
+        errors.push(`\`destinations[${index}].relations.depth\` must be a positive integer`)
+      }
+    })
+  }
+
+  for (const key of stringArrayOptions) {
+    const option = value[key]
+    if (
+      option !== undefined &&
+      !(Array.isArray(option) && option.every((item) => typeof item === 'string'))
+    ) {
+      errors.push(`\`${key}\` must be an array of strings`)
+    }
+  }
+
+  for (const key of booleanOptions) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+      errors.push(`\`${key}\` must be a boolean`)
+    }
+  }
+
+  if (
+    value.inflection !== undefined &&
+    !inflections.includes(value.inflection as string)
+  ) {
+    errors.push(`\`inflection\` must be one of: ${inflections.join(', ')}`)
+  }
+
+  if (
+    value.columnOrder !== undefined &&
+    !columnOrders.includes(value.columnOrder as string)
+  ) {
+    errors.push(`\`columnOrder\` must be one of: ${columnOrders.join(', ')}`)
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid mutano config in ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+    )
+  }
+
+  return value as unknown as Config
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,137 @@
+/**
+ * Minimal line-based unified diff used by check mode
+ */
+
+interface DiffLine {
+  type: ' ' | '-' | '+'
+  text: string
+}
+
+const CONTEXT_LINES = 3
+
+function splitLines(content: string): string[] {
+  if (content === '') return []
+  const lines = content.split('\n')
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+/**
+ * Compute the edit script between two line arrays using a longest common subsequence table.
+ * Common prefix and suffix are stripped first so regenerated files with small changes stay cheap.
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix)
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix)
+  const rows = oldMiddle.length
+  const cols = newMiddle.length
+  const lcs = new Uint32Array((rows + 1) * (cols + 1))
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * (cols + 1) + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1])
+    }
+  }
+
+  const result: DiffLine[] = oldLines
+    .slice(0, prefix)
+    .map((text) => ({ type: ' ', text }))
+
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      result.push({ type: ' ', text: oldMiddle[i] })
+      i++
+      j++
+    } else if (lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1]) {
+      result.push({ type: '-', text: oldMiddle[i] })
+      i++
+    } else {
+      result.push({ type: '+', text: newMiddle[j] })
+      j++
+    }
+  }
+  while (i < rows) result.push({ type: '-', text: oldMiddle[i++] })
+  while (j < cols) result.push({ type: '+', text: newMiddle[j++] })
+
+  for (const text of oldLines.slice(oldLines.length - suffix)) {
+    result.push({ type: ' ', text })
+  }
+
+  return result
+}
+
+/**
+ * Create a unified diff between two file contents.
+ * Pass null as oldContent/newContent for files that are created/removed.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldContent: string | null,
+  newContent: string | null,
+): string {
+  const lines = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''))
+  const changed = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter((index) => index !== -1)
+
+  if (changed.length === 0) return ''
+
+  let output = `--- ${oldContent === null ? '/dev/null' : `a/${filePath}`}\n`
+  output += `+++ ${newContent === null ? '/dev/null' : `b/${filePath}`}\n`
+
+  // Group changed lines into hunks, merging hunks whose context overlaps
+  const ranges: Array<[number, number]> = []
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES)
+    const end = Math.min(lines.length - 1, index + CONTEXT_LINES)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1] + 1) {
+      last[1] = end
+    } else {
+      ranges.push([start, end])
+    }
+  }
+
+  for (const [start, end] of ranges) {
+    let oldStart = 1
+    let newStart = 1
+    for (const line of lines.slice(0, start)) {
+      if (line.type !== '+') oldStart++
+      if (line.type !== '-') newStart++
+    }
+
+    const hunk = lines.slice(start, end + 1)
+    const oldCount = hunk.filter((line) => line.type !== '+').length
+    const newCount = hunk.filter((line) => line.type !== '-').length
+
+    output += `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@\n`
+    for (const line of hunk) {
+      output += `${line.type}${line.text}\n`
+    }
+  }
+
+  return output
+}
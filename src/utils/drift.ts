@@ -0,0 +1,146 @@
+/**
+ * Drift detection between generated output and files on disk (check mode)
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import type { Config, Destination } from '../types/index.js'
+import { createUnifiedDiff } from './diff.js'
+import {
+  getDestinationExtension,
+  getDestinationFolder,
+  getDestinationSuffix,
+  isConsolidatedDestination,
+  readManifest,
+} from './manifest.js'
+
+export interface DriftReport {
+  /** Generated files that do not exist on disk yet */
+  added: string[]
+  /** Generated files whose content differs from the file on disk */
+  changed: string[]
+  /** Files recorded in a manifest that are missing from the generated output */
+  missing: string[]
+  /** Unified diff per drifted file path */
+  diffs: Record<string, string>
+}
+
+/**
+ * Thrown by generate() in check mode when generated output differs from disk
+ */
+export class GenerationDriftError extends Error {
+  readonly report: DriftReport
+
+  constructor(report: DriftReport) {
+    const total = report.added.length + report.changed.length + report.missing.length
+    super(
+      `Generated files are out of date (${total} file${total === 1 ? '' : 's'}: ` +
+        `${report.added.length} added, ${report.changed.length} changed, ${report.missing.length} missing)`,
+    )
+    this.name = 'GenerationDriftError'
+    this.report = report
+  }
+}
+
+/**
+ * Check whether a drift report contains any difference
+ */
+export function hasDrift(report: DriftReport): boolean {
+  return report.added.length > 0 || report.changed.length > 0 || report.missing.length > 0
+}
+
+/**
+ * Compare generated results with the files currently on disk. Partial runs (`--table`,
+ * `--only`) only report missing files of the entities and destinations they cover.
+ */
+export async function detectDrift(
+  results: Record<string, string>,
+  destinations: Destination[],
+  partial?: Config['partial'],
+): Promise<DriftReport> {
+  const report: DriftReport = { added: [], changed: [], missing: [], diffs: {} }
+
+  for (const [filePath, content] of Object.entries(results)) {
+    const fullPath = path.resolve(filePath)
+    if (!existsSync(fullPath)) {
+      report.added.push(filePath)
+      report.diffs[filePath] = createUnifiedDiff(filePath, null, content)
+      continue
+    }
+
+    const current = await readFile(fullPath, 'utf-8')
+    if (current !== content) {
+      report.changed.push(filePath)
+      report.diffs[filePath] = createUnifiedDiff(filePath, current, content)
+    }
+  }
+
+  const generated = new Set(Object.keys(results).map((filePath) => path.resolve(filePath)))
+  for (const filePath of await findGeneratedFiles(destinations, partial)) {
+    if (!generated.has(path.resolve(filePath))) {
+      report.missing.push(filePath)
+      report.diffs[filePath] = createUnifiedDiff(
+        filePath,
+        await readFile(path.resolve(filePath), 'utf-8'),
+        null,
+      )
+    }
+  }
+
+  return report
+}
+
+/**
+ * List files recorded in destination manifests. Without a manifest (no `clean`), generated files
+ * cannot be told apart from hand-written ones, so none are listed.
+ * Manifests are shared by every destination of a folder, so partial runs only list per-entity
+ * files of their destinations, limited to the selected tables.
+ */
+async function findGeneratedFiles(
+  destinations: Destination[],
+  partial?: Config['partial'],
+): Promise<string[]> {
+  const files = new Set<string>()
+
+  for (const destination of destinations) {
+    const folder = getDestinationFolder(destination)
+    const suffix = getDestinationSuffix(destination)
+    const ending = `.${suffix}${getDestinationExtension(destination)}`
+
+    for (const fileName of await readManifest(folder)) {
+      if (partial) {
+        const isEntityFile =
+          !isConsolidatedDestination(destination) && suffix && fileName.endsWith(ending)
+        if (!isEntityFile) continue
+        const entity = fileName.slice(0, -ending.length)
+        if (partial.tables && !partial.tables.includes(entity)) continue
+      }
+      if (existsSync(path.resolve(folder, fileName))) {
+        files.add(path.join(folder, fileName))
+      }
+    }
+  }
+
+  return [...files]
+}
+
+/**
+ * Format a drift report for console output
+ */
+export function formatDriftReport(report: DriftReport): string {
+  if (!hasDrift(report)) {
+    return 'Generated files are up to date.\n'
+  }
+
+  let output = ''
+  for (const filePath of report.added) output += `Added: ${filePath}\n`
+  for (const filePath of report.changed) output += `Changed: ${filePath}\n`
+  for (const filePath of report.missing) output += `Missing: ${filePath}\n`
+
+  for (const filePath of [...report.added, ...report.changed, ...report.missing]) {
+    output += `\n${report.diffs[filePath]}`
+  }
+
+  return output
+}
@@ -1,7 +1,20 @@
 /**
- * Utilities for parsing magic comments (@zod, @ts, @kysely)
+ * Utilities for parsing magic comments (@zod, @ts, @kysely, @valibot, @arktype, @typebox, @effect, @yup, @joi, @graphql)
  */
 
+const magicCommentPrefixes = [
+  '@zod(',
+  '@ts(',
+  '@kysely(',
+  '@valibot(',
+  '@arktype(',
+  '@typebox(',
+  '@effect(',
+  '@yup(',
+  '@joi(',
+  '@graphql(',
+]
+
 /**
  * Extract type expression from a comment with a given prefix
  * Handles nested parentheses, brackets, and braces
@@ -52,6 +65,65 @@ export const extractKyselyExpression = (comment: string): string | null =>
 export const extractZodExpression = (comment: string): string | null =>
   extractTypeExpression(comment, '@zod(')
 
+/**
+ * Extract Valibot schema expression from @valibot() comment
+ */
+export const extractValibotExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@valibot(')
+
+/**
+ * Extract ArkType definition from @arktype() comment
+ */
+export const extractArkTypeExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@arktype(')
+
+/**
+ * Extract TypeBox schema expression from @typebox() comment
+ */
+export const extractTypeBoxExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@typebox(')
+
+/**
+ * Extract Effect schema expression from @effect() comment
+ */
+export const extractEffectExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@effect(')
+
+/**
+ * Extract Yup schema expression from @yup() comment
+ */
+export const extractYupExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@yup(')
+
+/**
+ * Extract Joi schema expression from @joi() comment
+ */
+export const extractJoiExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@joi(')
+
+/**
+ * Extract GraphQL type from @graphql() comment
+ */
+export const extractGraphQLExpression = (comment: string): string | null =>
+  extractTypeExpression(comment, '@graphql(')
+
+/**
+ * Remove magic comments from a comment, leaving the human-readable text
+ */
+export const stripMagicComments = (comment: string): string => {
+  let result = comment
+  for (const prefix of magicCommentPrefixes) {
+    let expression = extractTypeExpression(result, prefix)
+    while (expression !== null) {
+      // Drop the prefix, the expression and its closing character
+      const start = result.indexOf(prefix)
+      result = result.slice(0, start) + result.slice(start + prefix.length + expression.length + 1)
+      expression = extractTypeExpression(result, prefix)
+    }
+  }
+  return result.replace(/\s+/g, ' ').trim()
+}
+
 /**
  * Check if a comment contains @ignore directive (for columns)
  */
@@ -70,7 +142,18 @@ export const hasTableIgnoreDirective = (comment: string): boolean => {
  * Check if a comment contains any magic comment
  */
 export const hasMagicComment = (comment: string): boolean => {
-  return comment.includes('@zod(') || comment.includes('@ts(') || comment.includes('@kysely(')
+  return (
+    comment.includes('@zod(') ||
+    comment.includes('@ts(') ||
+    comment.includes('@kysely(') ||
+    comment.includes('@valibot(') ||
+    comment.includes('@arktype(') ||
+    comment.includes('@typebox(') ||
+    comment.includes('@effect(') ||
+    comment.includes('@yup(') ||
+    comment.includes('@joi(') ||
+    comment.includes('@graphql(')
+  )
 }
 
 /**
@@ -80,6 +163,13 @@ export interface MagicComments {
   zod?: string
   ts?: string
   kysely?: string
+  valibot?: string
+  arktype?: string
+  typebox?: string
+  effect?: string
+  yup?: string
+  joi?: string
+  graphql?: string
 }
 
 export const parseMagicComments = (comment: string): MagicComments => {
@@ -99,6 +189,41 @@ export const parseMagicComments = (comment: string): MagicComments => {
   if (kyselyExpression) {
     result.kysely = kyselyExpression
   }
+
+  const valibotExpression = extractValibotExpression(comment)
+  if (valibotExpression) {
+    result.valibot = valibotExpression
+  }
+
+  const arktypeExpression = extractArkTypeExpression(comment)
+  if (arktypeExpression) {
+    result.arktype = arktypeExpression
+  }
+
+  const typeboxExpression = extractTypeBoxExpression(comment)
+  if (typeboxExpression) {
+    result.typebox = typeboxExpression
+  }
+
+  const effectExpression = extractEffectExpression(comment)
+  if (effectExpression) {
+    result.effect = effectExpression
+  }
+
+  const yupExpression = extractYupExpression(comment)
+  if (yupExpression) {
+    result.yup = yupExpression
+  }
+
+  const joiExpression = extractJoiExpression(comment)
+  if (joiExpression) {
+    result.joi = joiExpression
+  }
+
+  const graphqlExpression = extractGraphQLExpression(comment)
+  if (graphqlExpression) {
+    result.graphql = graphqlExpression
+  }
   
   return result
 }
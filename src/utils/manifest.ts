@@ -0,0 +1,137 @@
+/**
+ * Manifest of generated files per destination folder, used by the clean option
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile, rm, writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import { ensureDir } from 'fs-extra/esm'
+import type { Destination } from '../types/index.js'
+
+export const manifestFileName = '.mutano-manifest.json'
+
+interface Manifest {
+  files: string[]
+}
+
+/**
+ * Check if a destination writes consolidated files instead of one file per entity
+ */
+export function isConsolidatedDestination(
+  destination: Destination,
+): destination is Extract<Destination, { type: 'kysely' | 'openapi' | 'graphql' | 'drizzle' | 'prisma' | 'sql' | 'custom' }> {
+  return (
+    destination.type === 'kysely' ||
+    destination.type === 'openapi' ||
+    destination.type === 'graphql' ||
+    destination.type === 'drizzle' ||
+    destination.type === 'prisma' ||
+    destination.type === 'sql' ||
+    destination.type === 'custom'
+  )
+}
+
+/**
+ * Get the folder a destination writes into
+ */
+export function getDestinationFolder(destination: Destination): string {
+  if ('outFile' in destination && destination.outFile) {
+    return path.dirname(destination.outFile)
+  }
+  return destination.folder || '.'
+}
+
+/**
+ * Get the suffix of per-entity files (`<entity>.<suffix><extension>`) of a built-in destination
+ */
+export function getDestinationSuffix(destination: Destination): string {
+  if ('suffix' in destination && destination.suffix !== undefined) {
+    return destination.suffix
+  }
+  return destination.type === 'jsonschema' ? 'schema' : destination.type
+}
+
+/**
+ * Get the extension of files written by a built-in destination
+ */
+export function getDestinationExtension(destination: Destination): string {
+  return destination.type === 'jsonschema' ? '.json' : '.ts'
+}
+
+/**
+ * Read the file names recorded in a folder's manifest (empty when there is none)
+ */
+export async function readManifest(folder: string): Promise<string[]> {
+  const manifestPath = path.resolve(folder, manifestFileName)
+  if (!existsSync(manifestPath)) return []
+
+  try {
+    const manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as Manifest
+    return Array.isArray(manifest.files)
+      ? manifest.files.filter((file): file is string => typeof file === 'string')
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Write the manifest for a folder
+ */
+export async function writeManifest(folder: string, files: string[]): Promise<void> {
+  const manifest: Manifest = { files: [...files].sort() }
+  await ensureDir(path.resolve(folder))
+  await writeFile(
+    path.resolve(folder, manifestFileName),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+  )
+}
+
+/**
+ * Delete files recorded in previous manifests that are no longer generated,
+ * then record the current output. Files that are not in a manifest are never touched.
+ * Partial runs (`--table`, `--only`) cannot tell stale files apart from files they did not
+ * generate, so they delete nothing and add their output to the manifests.
+ */
+export async function cleanStaleFiles(
+  results: Record<string, string>,
+  destinations: Destination[],
+  silent?: boolean,
+  partial?: boolean,
+): Promise<string[]> {
+  const filesByFolder = new Map<string, Set<string>>()
+  for (const destination of destinations) {
+    filesByFolder.set(path.resolve(getDestinationFolder(destination)), new Set())
+  }
+  for (const filePath of Object.keys(results)) {
+    const folder = path.resolve(path.dirname(filePath))
+    const files = filesByFolder.get(folder) ?? new Set()
+    files.add(path.basename(filePath))
+    filesByFolder.set(folder, files)
+  }
+
+  const deleted: string[] = []
+  for (const [folder, files] of filesByFolder) {
+    for (const fileName of await readManifest(folder)) {
+      // Manifest entries are plain file names; anything else was not written by mutano
+      if (files.has(fileName) || fileName !== path.basename(fileName)) continue
+      if (partial) {
+        files.add(fileName)
+        continue
+      }
+
+      const stalePath = path.join(folder, fileName)
+      if (existsSync(stalePath)) {
+        await rm(stalePath)
+        deleted.push(stalePath)
+        if (!silent) {
+          console.log(`Deleted: ${stalePath}`)
+        }
+      }
+    }
+
+    await writeManifest(folder, [...files])
+  }
+
+  return deleted
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal YAML serializer for JSON-compatible values
+ */
+
+const yamlKeywords = /^(?:true|false|null|yes|no|on|off|y|n|~)$/i
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$-]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'string') {
+    // Anything that could be read as another type, a comment or an indicator is quoted
+    return /^[A-Za-z_][\w/.$-]*$/.test(value) && !yamlKeywords.test(value)
+      ? value
+      : JSON.stringify(value)
+  }
+  return String(value)
+}
+
+function isCollection(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+}
+
+function isEmptyCollection(value: object): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0
+}
+
+function formatInline(value: unknown): string {
+  if (isCollection(value)) {
+    return Array.isArray(value) ? '[]' : '{}'
+  }
+  return formatScalar(value)
+}
+
+function renderLines(value: object, indent: number): string[] {
+  const pad = ' '.repeat(indent)
+  const lines: string[] = []
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!isCollection(item) || isEmptyCollection(item)) {
+        lines.push(`${pad}- ${formatInline(item)}`)
+        continue
+      }
+      // The first line of a nested collection goes on the dash line
+      const [first, ...rest] = renderLines(item, indent + 2)
+      lines.push(`${pad}- ${first.trimStart()}`, ...rest)
+    }
+    return lines
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue
+    if (!isCollection(item) || isEmptyCollection(item)) {
+      lines.push(`${pad}${formatKey(key)}: ${formatInline(item)}`)
+      continue
+    }
+    lines.push(`${pad}${formatKey(key)}:`, ...renderLines(item, indent + 2))
+  }
+  return lines
+}
+
+/**
+ * Serialize a JSON-compatible value as a YAML document
+ */
+export function toYaml(value: unknown): string {
+  if (!isCollection(value) || isEmptyCollection(value)) {
+    return `${formatInline(value)}\n`
+  }
+  return `${renderLines(value, 0).join('\n')}\n`
+}
@@ -0,0 +1,122 @@
+/**
+ * Watch mode for file-based origins (Prisma, SQL DDL and SQLite)
+ */
+
+import { existsSync, type FSWatcher, watch as watchFs } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import * as path from 'node:path'
+import { ensureDir } from 'fs-extra/esm'
+import { generate } from './main.js'
+import type { Config } from './types/index.js'
+import { cleanStaleFiles } from './utils/manifest.js'
+
+export interface WatchOptions {
+  /** Milliseconds to wait after the last change before regenerating (default: 100) */
+  debounce?: number
+  /** Called after each run with the files that were actually rewritten */
+  onGenerate?: (writtenFiles: string[]) => void
+  /** Called when a run fails; defaults to logging the error */
+  onError?: (error: Error) => void
+}
+
+export interface Watcher {
+  close: () => void
+}
+
+/**
+ * Write only the generated files whose content differs from what is on disk
+ */
+async function writeChangedFiles(
+  results: Record<string, string>,
+  silent?: boolean,
+): Promise<string[]> {
+  const written: string[] = []
+
+  for (const [filePath, content] of Object.entries(results)) {
+    const fullPath = path.resolve(filePath)
+    if (existsSync(fullPath) && (await readFile(fullPath, 'utf-8')) === content) {
+      continue
+    }
+
+    await ensureDir(path.dirname(fullPath))
+    await writeFile(fullPath, content)
+    written.push(filePath)
+
+    if (!silent) {
+      console.log(`Updated: ${filePath}`)
+    }
+  }
+
+  return written
+}
+
+/**
+ * Generate once, then regenerate whenever the schema file at `origin.path` changes.
+ * Parse errors are reported through `onError` and the watcher keeps running.
+ */
+export async function watch(config: Config, options: WatchOptions = {}): Promise<Watcher> {
+  const { origin } = config
+  if (origin.type !== 'prisma' && origin.type !== 'sql' && origin.type !== 'sqlite') {
+    throw new Error(
+      `Watch mode only supports file-based origins (prisma, sql, sqlite), got: ${origin.type}`,
+    )
+  }
+
+  const debounce = options.debounce ?? 100
+  const onError =
+    options.onError ?? ((error: Error) => console.error(`mutano: ${error.message}`))
+  const schemaPath = path.resolve(origin.path)
+  const schemaFile = path.basename(schemaPath)
+
+  let running = false
+  let pending = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const run = async () => {
+    if (running) {
+      pending = true
+      return
+    }
+    running = true
+    try {
+      const results = await generate({ ...config, dryRun: true, check: false })
+      const written = await writeChangedFiles(results, config.silent)
+      if (config.clean) {
+        await cleanStaleFiles(
+          results,
+          config.destinations,
+          config.silent,
+          config.partial !== undefined,
+        )
+      }
+      options.onGenerate?.(written)
+    } catch (error) {
+      onError(error as Error)
+    } finally {
+      running = false
+      if (pending) {
+        pending = false
+        await run()
+      }
+    }
+  }
+
+  await run()
+
+  // Watch the parent folder: editors often save by replacing the file, which ends a file watcher.
+  // SQLite also writes -journal/-wal files next to the database.
+  const watcher: FSWatcher = watchFs(path.dirname(schemaPath), (_event, fileName) => {
+    if (!fileName || !(fileName === schemaFile || fileName.startsWith(`${schemaFile}-`))) {
+      return
+    }
+    clearTimeout(timer)
+    timer = setTimeout(run, debounce)
+  })
+
+  return {
+    close: () => {
+      clearTimeout(timer)
+      watcher.close()
+    },
+  }
+}